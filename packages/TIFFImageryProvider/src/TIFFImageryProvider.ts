@@ -1,13 +1,27 @@
-import { Event, GeographicTilingScheme, Credit, Rectangle, ImageryLayerFeatureInfo, Math as CesiumMath, DeveloperError, defined, Cartesian2, WebMercatorTilingScheme } from "cesium";
-import GeoTIFF, { Pool, fromUrl, fromBlob, GeoTIFFImage, TypedArrayArrayWithDimensions } from 'geotiff';
+import { Event, GeographicTilingScheme, Credit, Rectangle, ImageryLayerFeatureInfo, Math as CesiumMath, DeveloperError, defined, Cartesian2, WebMercatorTilingScheme, Cartographic, Resource, JulianDate, Clock, WebMercatorProjection } from "cesium";
+import GeoTIFF, { Pool, fromUrl, fromBlob, fromCustomClient, GeoTIFFImage, TypedArrayArrayWithDimensions } from 'geotiff';
 
 import { addColorScale, plot } from './plotty'
-import { getMinMax, generateColorScale, findAndSortBandNumbers, stringColorToRgba } from "./helpers/utils";
+import { getMinMax, generateColorScale, findAndSortBandNumbers, stringColorToRgba, NoData, isNoData, getNoDataFill, getSampleNoData } from "./helpers/utils";
 import { ColorScaleNames, TypedArray } from "./plotty/typing";
 import TIFFImageryProviderTilingScheme from "./TIFFImageryProviderTilingScheme";
-import { BBox, reprojection } from "./helpers/reprojection";
-
-import { reverseArray } from "./helpers/utils";
+import { BBox, ReprojectionMesh, createReprojectionMesh, interpolateMesh } from "./helpers/reprojection";
+import { MosaicSource, bboxToWindow, intersectBBox, pasteWindow, selectOverview, selectOverviewIndex, unionBBox } from "./helpers/mosaic";
+import { StacItem, StacItemCollection, getStacBandMetadata, getStacBandNames, replaceBandNames, resolveStacItems, selectStacAssets } from "./helpers/stac";
+import { ReadRasterOptions, StackedGeoTIFF } from "./helpers/stack";
+import { VRTGeoTIFF, isVRT, parseVRT } from "./helpers/vrt";
+import { CustomFetchClient, FetchFunction, createResourceFetch } from "./helpers/request";
+import { PersistentCache, cacheHeaderResponses, hashString, trackValidator } from "./helpers/cache";
+import { getSampledPixels, getStripDataSize, readStripSamples } from "./helpers/strip";
+import { PixelTransform, bboxToPixelWindow, createAffineTransform, getFootprintBBox, getGeoTransform, getPixelSize, isRotated, transformBBox } from "./helpers/affine";
+import { GCPFit, GCPOptions, fitGCPTransform, getGCPs } from "./helpers/gcp";
+import { getCRSType, getDatumCode, getProjection } from "./helpers/crs";
+import { DatumShift, getDatumShift } from "./helpers/datum";
+import { OffsetCoordinateSystem, createCoordinateOffset } from "./helpers/offset";
+import { Projection, mercator } from "./helpers/projections";
+import { VectorBand, drawVectors, sampleBand } from "./helpers/vectors";
+
+import { reverseArray, isMaskImage, isOverviewImage, getAlphaSample, normalizeAlpha, getPaletteColors } from "./helpers/utils";
 import { createCanavas } from "./helpers/createCanavas";
 
 
@@ -93,9 +107,78 @@ export interface MultiBandRenderOptions {
   };
 }
 
+export interface HillshadeOptions {
+  /** direction of the light in degrees clockwise from north, defaults to 315 */
+  azimuth?: number;
+  /** angle of the light above the horizon in degrees, defaults to 45 */
+  altitude?: number;
+  /** vertical exaggeration multiplied with the elevations, e.g. 0.3048 for elevations in feet, defaults to 1 */
+  zFactor?: number;
+  /**
+   * Combine lights from 225, 270, 315 and 360 degrees weighted by the aspect like ``gdaldem hillshade -multidirectional``,
+   * the azimuth is ignored
+   */
+  multidirectional?: boolean;
+}
+
+export interface SlopeOptions {
+  /** degrees (0 - 90) or percent rise, 100 for 45 degrees, defaults to degrees */
+  unit?: 'degrees' | 'percent';
+  /** vertical exaggeration multiplied with the elevations, defaults to 1 */
+  zFactor?: number;
+}
+
+export interface AspectOptions {
+  /** render flat areas with the aspect 0 instead of nodata, like ``gdaldem aspect -zero_for_flat`` */
+  zeroForFlat?: boolean;
+}
+
+export interface ContourOptions {
+  /** difference of the values between neighbouring lines */
+  interval: number;
+  /** value of a line, the others are at multiples of the interval from it, defaults to 0 */
+  base?: number;
+  /** every nth line from the base is a major line, no major lines by default */
+  majorEvery?: number;
+  /** css color of the lines, defaults to black */
+  color?: string;
+  /** width of the lines in pixels, defaults to 1 */
+  width?: number;
+  /** css color of the major lines, defaults to ``color`` */
+  majorColor?: string;
+  /** width of the major lines in pixels, defaults to twice ``width`` */
+  majorWidth?: number;
+  /** draw the lines over the color scale, or only the lines when false, defaults to true */
+  fill?: boolean;
+}
+
+export interface VectorOptions {
+  /** band number of the eastward component, defaults to 1 */
+  u?: number;
+  /** band number of the northward component, defaults to 2 */
+  v?: number;
+  /** arrows pointing downwind, or wind barbs pointing to where the wind comes from, defaults to arrow */
+  symbol?: 'arrow' | 'barb';
+  /** distance between the symbols in pixels, the symbols keep their density on screen at every zoom level, defaults to 32 */
+  spacing?: number;
+  /** width of the lines in pixels, defaults to 1.5 */
+  lineWidth?: number;
+  /** factor converting the speed to knots for the barbs, e.g. 1.943844 for m/s, defaults to 1 */
+  knotsFactor?: number;
+  /** css color of the symbols, defaults to the color of the speed in the color scale, or black with ``colorScaleImage`` */
+  color?: string;
+  /** render the speed with the color scale under the symbols, defaults to false */
+  fill?: boolean;
+}
+
 export type TIFFImageryProviderRenderOptions = {
-  /** nodata value, default read from tiff meta */
-  nodata?: number;
+  /**
+   * nodata value or range [min, max], or the nodata of each band keyed by band number (start from 1),
+   * default read from tiff meta
+   * @example
+   * nodata: { 1: 0, 2: [-Infinity, -9000] }
+   */
+  nodata?: NoData | Record<number, NoData>;
   /** Only valid for three band rendering, defaults to { 'black': 'transparent' } */
   colorMapping?: Record<string, string>;
   /** try to render multi band cog to RGB, priority 1 */
@@ -106,6 +189,42 @@ export type TIFFImageryProviderRenderOptions = {
   single?: SingleBandRenderOptions;
   /** resample method, defaults to nearest */
   resampleMethod?: 'nearest' | 'bilinear'
+  /**
+   * Shade the elevations of the single band from the ground size of the pixels. The shade (0 - 1) is rendered with the
+   * color scale of the band over ``domain``, which defaults to [0, 1]. Elevations are sampled bilinearly, requires WebGL.
+   */
+  hillshade?: HillshadeOptions;
+  /**
+   * Render the slope of the elevations of the single band from the ground size of the pixels with the color scale of
+   * the band over ``domain``, which defaults to [0, 90] for degrees and [0, 100] for percent. Requires WebGL.
+   */
+  slope?: SlopeOptions;
+  /**
+   * Render the aspect of the elevations of the single band, the downslope direction in degrees clockwise from north,
+   * with the color scale of the band over ``domain``, which defaults to [0, 360]. Requires WebGL.
+   */
+  aspect?: AspectOptions;
+  /**
+   * Draw contour lines of the values of the single band over the rendered colors, also over the terrain modes.
+   * Lines join across tiles, requires WebGL.
+   */
+  contours?: ContourOptions;
+  /**
+   * Draw arrows or wind barbs of the vectors of two bands on a grid of each tile, colored by the speed with the color
+   * scale of ``single`` over ``domain``, which defaults to [0, largest speed]
+   */
+  vector?: VectorOptions;
+}
+
+/**
+ * Domain of the values derived from the elevations by the terrain modes
+ * @returns undefined when the values are rendered
+ */
+function getTerrainDomain({ hillshade, slope, aspect }: TIFFImageryProviderRenderOptions): [number, number] | undefined {
+  if (hillshade) return [0, 1];
+  if (slope) return slope.unit === 'percent' ? [0, 100] : [0, 90];
+  if (aspect) return [0, 360];
+  return undefined;
 }
 
 export interface TIFFImageryProviderOptions {
@@ -120,6 +239,13 @@ export interface TIFFImageryProviderOptions {
     allowFullFile?: boolean;
     [key: string]: any;
   };
+  /**
+   * Custom fetch invoked for every request: TIFF headers, tile ranges, full file downloads of non-tiled TIFFs,
+   * VRT and STAC documents. Use it to refresh expiring tokens, sign requests or route through a proxy.
+   * @example
+   * fetch: async (url, init) => fetch(url, { ...init, headers: { ...init.headers, Authorization: `Bearer ${await getToken()}` } })
+   */
+  fetch?: FetchFunction;
   credit?: string;
   tileSize?: number;
   maximumLevel?: number;
@@ -129,11 +255,31 @@ export interface TIFFImageryProviderOptions {
    * */
   useImageCountAsMaximumLevel?: boolean;
   minimumLevel?: number;
+  /**
+   * Oversampling tolerance of the overview selection: each tile reads the coarsest overview whose pixel size is at most
+   * the tile resolution multiplied by the tolerance. Values above 1 read less data at the cost of sharpness, defaults to 1.
+   */
+  overviewTolerance?: number;
   enablePickFeatures?: boolean;
+  /** apply internal masks and alpha bands as transparency, defaults to true */
   hasAlphaChannel?: boolean;
+  /**
+   * Convert stored values with the GDAL ``SCALE`` / ``OFFSET`` band metadata (value * scale + offset) for statistics,
+   * rendering, expressions and picking. Domains and min / max are given in converted units. Defaults to true.
+   */
+  applyScaleOffset?: boolean;
   renderOptions?: TIFFImageryProviderRenderOptions;
   /**
-   * If TIFF's projection is not EPSG:4326 or EPSG:3857, you can pass the ``projFunc`` to handle the projection
+   * Treat bands or pages as time steps, the layer renders the step active at the current time
+   * @example
+   * time: { times: ['2024-01-01', '2024-02-01', '2024-03-01'], clock: viewer.clock }
+   */
+  time?: TIFFImageryProviderTimeOptions;
+  /** transform fitted to the GCPs of images georeferenced by several tie points */
+  gcp?: GCPOptions;
+  /**
+   * Override the projection of TIFFs that are not EPSG:4326 or EPSG:3857, by default the projection is resolved from
+   * the EPSG definitions added with ``registerCRS`` or built from the GeoKey directory
    * @experimental
    */
   projFunc?: (code: number) => {
@@ -142,8 +288,40 @@ export interface TIFFImageryProviderOptions {
     /** unprojection function, convert [x, y] position to [lon, lat] */
     unproject: ((pos: number[]) => number[]);
   } | undefined;
+  /**
+   * Shift positions on the datum of the TIFF to WGS84, called with its EPSG datum code. By default ``GeogTOWGS84GeoKey``
+   * or the parameters of common datums are applied, datums within a metre of WGS84 (NAD83, ETRS89, CGCS2000...) are used as is
+   */
+  datumShift?: (datum: number) => DatumShift | undefined;
+  /**
+   * Offset the raster to line up with basemaps in Chinese coordinate systems, ``from`` is the coordinate system of the raster
+   * and ``to`` the one of the basemap
+   * @example
+   * coordinateOffset: { from: 'wgs84', to: 'gcj02' }
+   */
+  coordinateOffset?: {
+    from: OffsetCoordinateSystem;
+    to: OffsetCoordinateSystem;
+  };
+  /**
+   * Output tiles in a full globe Cesium tiling scheme instead of one fitted to the TIFF, so they line up with the tiles
+   * of the basemap. Every tile reads the source window it covers and reprojects it.
+   */
+  outputTilingScheme?: 'geographic' | 'webMercator';
   /** cache size, defaults to 100 */
   cacheSize?: number;
+  /**
+   * Non-tiled TIFFs whose image data is at most this many bytes are downloaded at once, larger ones are read
+   * strip by strip with range requests. Defaults to 16MB.
+   */
+  fullDownloadThreshold?: number;
+  /**
+   * Persistent cache of TIFF headers and decoded tile data kept across page reloads, entries are keyed by the
+   * source url and its ETag or Last-Modified header, sources sending neither header are not cached.
+   * @example
+   * persistentCache: new PersistentCache({ maxSize: 256 * 1024 * 1024 })
+   */
+  persistentCache?: PersistentCache;
   /** resample web worker pool size, defaults to the number of CPUs available. 
    * When this parameter is `null` or 0, 
    * then the resampling will be done in the main thread. 
@@ -151,8 +329,43 @@ export interface TIFFImageryProviderOptions {
   workerPoolSize?: number;
 }
 
+export interface TIFFImageryProviderTimeOptions {
+  /** time of each step in ascending order, a step is active from its time until the next one */
+  times: (JulianDate | string)[];
+  /**
+   * ``band``: step i is band i + 1, rendered as a single band without an expression.
+   * ``page``: step i is the i-th full resolution page (IFD) with its overviews and masks.
+   * Defaults to ``band``.
+   */
+  dimension?: 'band' | 'page';
+  /** follow the current time of the clock */
+  clock?: Clock;
+}
+
+/** a Cesium Resource applies its query parameters, proxy, headers and retryCallback to every request */
+export type TIFFImageryProviderUrl = string | File | Blob | Resource;
+
+/** url or an already opened source */
+type TIFFImageryProviderSource = TIFFImageryProviderUrl | GeoTIFF;
+
+/**
+ * Samples read for a tile, data in another grid than the tile is georeferenced by ``bbox`` or ``pixelScaleOffset``
+ * and warped onto the tile by a mesh when rendering
+ */
+interface TileData {
+  data: TypedArray[];
+  width: number;
+  height: number;
+  /** bounding box of the data in the native CRS */
+  bbox?: BBox;
+  /** [scaleX, offsetX, scaleY, offsetY] converting full resolution pixel positions of a warped image to data pixel positions */
+  pixelScaleOffset?: number[];
+}
+
 const canvas = createCanavas(256, 256);
 
+const webMercator = mercator({ a: 6378137, e: 0, lon0: 0, lat0: 0, k0: 1, x0: 0, y0: 0 });
+
 export class TIFFImageryProvider {
   ready: boolean;
   tilingScheme: TIFFImageryProviderTilingScheme | GeographicTilingScheme | WebMercatorTilingScheme;
@@ -168,6 +381,8 @@ export class TIFFImageryProvider {
   bands: Record<number, {
     min: number;
     max: number;
+    /** GDAL ``UNITTYPE`` of the band */
+    unit?: string;
   }>;
   noData: number;
   hasAlphaChannel: boolean;
@@ -176,6 +391,10 @@ export class TIFFImageryProvider {
   readSamples: number[];
   requestLevels: number[];
   bbox: number[];
+  /** time of each step in temporal mode */
+  times?: JulianDate[];
+  /** fit quality of the GCP transform of images georeferenced by several tie points */
+  gcpFit?: GCPFit;
   private _destroyed = false;
   private _source!: GeoTIFF;
   private _imageCount!: number;
@@ -184,18 +403,40 @@ export class TIFFImageryProvider {
   private _imagesCache: Map<string, ImageData | HTMLCanvasElement | HTMLImageElement | OffscreenCanvas> = new Map();
   private _cacheSize: number;
   private _isTiled: boolean;
-  private _proj?: {
-    /** projection function, convert [lon, lat] position to EPSG:4326 */
-    project: (pos: number[]) => number[];
-    /** unprojection function */
-    unproject: (pos: number[]) => number[];
-  };
+  private _proj?: Projection;
   origin: number[];
   reverseY: boolean = false;
   samples: number;
   geotiffWorkerPool: Pool;
   private _buffer: number = 1;
   private _rgbPlot: plot;
+  private _mosaic?: MosaicSource[];
+  /** whether tiles carry a transparency channel read from masks or alpha bands */
+  private _hasAlpha = false;
+  /** nodata of every sample */
+  private _noData: NoData[] = [];
+  /** scale, offset and unit of every sample */
+  private _scaleOffsets: { scale: number; offset: number; unit?: string; }[] = [];
+  /** persistent cache keys of the opened sources */
+  private _sourceKeys = new WeakMap<GeoTIFF, string>();
+  private _tileCacheKey?: string;
+  private _cacheWrites: Promise<unknown> = Promise.resolve();
+  /**
+   * pixel transform of rotated, sheared or GCP georeferenced images and of images output in a standard tiling scheme,
+   * their tiles are warped through the inverse transform
+   */
+  private _pixelTransform?: PixelTransform;
+  /** conversion between [lon, lat] positions and the native CRS of the TIFF when tiles are output in a standard tiling scheme */
+  private _sourceProj?: Projection;
+  /** non-tiled sources read strip by strip with range requests */
+  private _stripSources = new WeakSet<GeoTIFF>();
+  private _timeDimension?: 'band' | 'page';
+  private _timeIndex?: number;
+  /** full resolution pages with their overviews and masks in temporal page mode */
+  private _pages?: { images: GeoTIFFImage[]; masks: GeoTIFFImage[]; }[];
+  private _removeClockListener?: Event.RemoveCallback;
+  /** assigned by Cesium when the provider is added to a layer, reloads the tiles */
+  private _reload?: () => void;
 
   constructor(private readonly options: TIFFImageryProviderOptions & {
     /**
@@ -204,7 +445,7 @@ export class TIFFImageryProvider {
      * @example 
      * const provider = await TIFFImageryProvider.fromUrl(url)
      */
-    url: string | File | Blob;
+    url: TIFFImageryProviderUrl | TIFFImageryProviderUrl[];
   }) {
     this.hasAlphaChannel = options.hasAlphaChannel ?? true;
     this.maximumLevel = options.maximumLevel ?? 18;
@@ -226,35 +467,96 @@ export class TIFFImageryProvider {
     return this._destroyed
   }
 
-  private async _build(url: string | File | Blob, options: TIFFImageryProviderOptions = {}) {
+  /** index of the active time step in temporal mode */
+  get timeIndex() {
+    return this._timeIndex;
+  }
+
+  private async _build(url: TIFFImageryProviderSource | TIFFImageryProviderSource[], options: TIFFImageryProviderOptions = {}) {
     const { tileSize, renderOptions, projFunc, requestOptions } = options;
-    let source = await (url instanceof File || url instanceof Blob ? fromBlob(url) : fromUrl(url, requestOptions))
-    let image = await source.getImage();
+    const sources = await Promise.all((Array.isArray(url) ? url : [url]).map(item => this._openSource(item, requestOptions)));
+    const source = sources[0];
+    const image = await source.getImage();
     this._isTiled = image.isTiled;
+    this._source = source;
 
-    // handle native tiff range request error
-    if (!this._isTiled && typeof url === 'string') {
-      source = await fromBlob(await (await fetch(url)).blob());
-      image = await source.getImage();
+    // get bounding box
+    const gcps = getGCPs(image);
+    if (gcps.length) {
+      const { transform, ...fit } = fitGCPTransform(gcps, options.gcp);
+      this._pixelTransform = transform;
+      this.gcpFit = fit;
+    } else {
+      const geoTransform = getGeoTransform(image);
+      if (geoTransform && isRotated(geoTransform)) {
+        this._pixelTransform = createAffineTransform(geoTransform);
+      }
+    }
+    if (this._pixelTransform) {
+      this.origin = this._pixelTransform.toNative(0, 0);
+      this.bbox = getFootprintBBox(this._pixelTransform, image.getWidth(), image.getHeight());
+    } else {
+      this.origin = this._getOrigin(image);
+      this.bbox = this._getBoundingBox(image);
+      this.reverseY = this._checkIfReversed(image);
     }
 
-    this._source = source;
+    const prjCode = this._getPrjCode(image);
 
-    // get bounding box
-    this.origin = this._getOrigin(image);
-    this.bbox = image.getBoundingBox();
-    this.reverseY = this._checkIfReversed(image);
+    if (sources.length > 1) {
+      this._mosaic = await Promise.all(sources.map(async (item) => {
+        const { images, masks } = await this._readImages(item);
+        const firstImage = images[0];
+        if (this._getPrjCode(firstImage) !== prjCode || firstImage.getSamplesPerPixel() !== image.getSamplesPerPixel()) {
+          throw new DeveloperError('All mosaic sources must share the same projection and band count');
+        }
+        const itemTransform = getGeoTransform(firstImage);
+        if (itemTransform && isRotated(itemTransform) || getGCPs(firstImage).length) {
+          throw new DeveloperError('Rotated, sheared or GCP georeferenced mosaic sources are not supported');
+        }
+        return {
+          source: item,
+          images,
+          masks,
+          bbox: this._getBoundingBox(firstImage),
+          reverseY: this._checkIfReversed(firstImage),
+        }
+      }));
+      this.bbox = unionBBox(this._mosaic.map(item => item.bbox));
+    }
     const [west, south, east, north] = this.bbox;
 
-    const prjCode = +(image.geoKeys.ProjectedCSTypeGeoKey ?? image.geoKeys.GeographicTypeGeoKey)
-
-    this._proj = projFunc?.(prjCode)
-    if (prjCode === 3857 || prjCode === 900913) {
+    const { geoKeys } = image;
+    const crsType = getCRSType(geoKeys);
+    if (crsType !== 'webMercator' && prjCode !== 4326) {
+      const datumShift = options.datumShift?.(getDatumCode(geoKeys)) ?? getDatumShift(geoKeys);
+      this._proj = projFunc?.(prjCode);
+      if (!this._proj && crsType === 'projected') {
+        this._proj = getProjection(geoKeys, datumShift);
+      } else if (!this._proj && crsType === 'geographic' && datumShift) {
+        // positions on other datums are reprojected from WGS84
+        this._proj = { project: datumShift.fromWGS84, unproject: datumShift.toWGS84 };
+      }
+    }
+    const { coordinateOffset } = options;
+    if (coordinateOffset && coordinateOffset.from !== coordinateOffset.to) {
+      // offset positions go through the reprojection of TIFFImageryProviderTilingScheme like other projections
+      const identity = (pos: number[]) => pos;
+      const base = this._proj ??
+        (crsType === 'webMercator' ? webMercator : undefined) ??
+        (crsType === 'geographic' ? { project: identity, unproject: identity } : undefined);
+      const offset = createCoordinateOffset(coordinateOffset.from, coordinateOffset.to);
+      this._proj = base && {
+        project: pos => base.project(offset.project(pos)),
+        unproject: pos => offset.unproject(base.unproject(pos)),
+      };
+    }
+    if (crsType === 'webMercator' && !this._proj) {
       this.tilingScheme = new WebMercatorTilingScheme({
         rectangleNortheastInMeters: new Cartesian2(east, north),
         rectangleSouthwestInMeters: new Cartesian2(west, south),
       })
-    } else if (prjCode === 4326) {
+    } else if (crsType === 'geographic' && !this._proj) {
       this.tilingScheme = new GeographicTilingScheme({
         rectangle: Rectangle.fromDegrees(...this.bbox),
         numberOfLevelZeroTilesX: 1,
@@ -268,7 +570,7 @@ export class TIFFImageryProvider {
         ...this._proj
       })
     } else {
-      const error = new DeveloperError(`Unspported projection type: EPSG:${prjCode}, please add projFunc parameter to handle projection`)
+      const error = new DeveloperError(`Unspported projection type: EPSG:${prjCode}, register its definition with registerCRS or add projFunc parameter to handle projection`)
       throw error;
     }
 
@@ -279,34 +581,77 @@ export class TIFFImageryProvider {
       this.rectangle.east += CesiumMath.TWO_PI;
     }
 
-    this._imageCount = await source.getImageCount();
-    for (let i = 0; i < this._imageCount; i++) {
-      const img = await source.getImage(i);
-      if (this._isMask(img)) {
-        // console.warn(`Image ${i} is a mask image, skipping...`);
-        this._masks.push(img);
+    const { outputTilingScheme } = options;
+    if (outputTilingScheme) {
+      // the rectangle of the fitted tiling scheme still limits the requested tiles
+      const identity = (pos: number[]) => pos;
+      this._sourceProj = this._proj ??
+        (this.tilingScheme instanceof WebMercatorTilingScheme ? webMercator : { project: identity, unproject: identity });
+      this.tilingScheme = outputTilingScheme === 'webMercator' ? new WebMercatorTilingScheme() : new GeographicTilingScheme();
+      if (!this._mosaic && !this._pixelTransform) {
+        // tiles are warped into the image like rotated ones
+        this._pixelTransform = createAffineTransform(getGeoTransform(image) ??
+          [west, (east - west) / image.getWidth(), 0, north, 0, (south - north) / image.getHeight()]);
+      }
+    }
+
+    const { time } = options;
+    if (time) {
+      this._timeDimension = time.dimension ?? 'band';
+      this.times = time.times.map(item => typeof item === 'string' ? JulianDate.fromIso8601(item) : item);
+      this._timeIndex = time.clock ? this._getTimeIndex(time.clock.currentTime) : 0;
+    }
+
+    let { images, masks } = await this._readImages(source);
+    if (this._timeDimension === 'page') {
+      if (this._mosaic) {
+        throw new DeveloperError('Temporal page mode does not support mosaics');
       }
-      else {
-        this._images.push(img);
+      this._pages = await this._readPages(source);
+      if (this._pages.length < this.times.length) {
+        throw new DeveloperError(`Found ${this._pages.length} pages for ${this.times.length} time steps`);
       }
+      ({ images, masks } = this._pages[this._timeIndex]);
     }
+    this._images = images;
+    this._masks = masks;
+    this._hasAlpha = this.hasAlphaChannel && (this._mosaic ?? [{ images, masks }]).some(item =>
+      item.masks.length > 0 || !!getAlphaSample(item.images[0])
+    );
     this._imageCount = this._images.length;
     if (options.useImageCountAsMaximumLevel) {
       this.maximumLevel = this._imageCount - 1;
     }
-    this.tileSize = this.tileWidth = tileSize || (this._isTiled ? image.getTileWidth() : image.getWidth()) || 256;
-    this.tileHeight = tileSize || (this._isTiled ? image.getTileHeight() : image.getHeight()) || 256;
+    if (this._mosaic || this._pixelTransform) {
+      // the whole mosaic, the rotated image or output tiles do not fit in a single native tile, use the file tile size instead
+      this.tileSize = this.tileWidth = tileSize || (this._isTiled ? image.getTileWidth() : 256);
+      this.tileHeight = tileSize || (this._isTiled ? image.getTileHeight() : 256);
+    } else if (this._stripSources.has(source)) {
+      // strips read with range requests are split into tiles like tiled images
+      this.tileSize = this.tileWidth = this.tileHeight = tileSize || 256;
+    } else {
+      this.tileSize = this.tileWidth = tileSize || (this._isTiled ? image.getTileWidth() : image.getWidth()) || 256;
+      this.tileHeight = tileSize || (this._isTiled ? image.getTileHeight() : image.getHeight()) || 256;
+    }
     // get the appropriate COG level
-    this.requestLevels = this._isTiled ? await this._getCogLevels() : [0];
+    this.requestLevels = this._isTiled || this._stripSources.has(source) ? this._getCogLevels() : [0];
     // this._images = new Array(this._imageCount).fill(null);
 
     // Get the number of bands
     const samples = image.getSamplesPerPixel();
     this.samples = samples;
+    if (this._timeDimension === 'band' && samples < this.times.length) {
+      throw new DeveloperError(`Found ${samples} bands for ${this.times.length} time steps`);
+    }
     this.renderOptions = renderOptions ?? {}
     // Get nodata value
     const noData = image.getGDALNoData();
-    this.noData = this.renderOptions.nodata ?? noData;
+    const { nodata } = this.renderOptions;
+    this.noData = typeof nodata === 'number' ? nodata : noData;
+    this._noData = new Array(samples).fill(0).map((_, i) => {
+      if (typeof nodata === 'number' || Array.isArray(nodata)) return nodata;
+      return nodata?.[i + 1] ?? getSampleNoData(image, i) ?? undefined;
+    });
 
     // Assign initial value
     if (samples < 3 && this.renderOptions.convertToRGB) {
@@ -314,7 +659,7 @@ export class TIFFImageryProvider {
       throw error;
     }
     if (!this.renderOptions.single && !this.renderOptions.multi && !this.renderOptions.convertToRGB) {
-      if (samples > 2) {
+      if (samples > 2 && this._timeDimension !== 'band' && !getTerrainDomain(this.renderOptions) && !this.renderOptions.contours && !this.renderOptions.vector) {
         this.renderOptions = {
           convertToRGB: true,
           ...this.renderOptions
@@ -331,27 +676,113 @@ export class TIFFImageryProvider {
     if (this.renderOptions.single) {
       this.renderOptions.single.band = this.renderOptions.single.band ?? 1;
     }
+    const { hillshade, slope, aspect } = this.renderOptions;
+    if (getTerrainDomain(this.renderOptions)) {
+      if ([hillshade, slope, aspect].filter(item => item).length > 1) {
+        throw new DeveloperError('Only one of hillshade, slope and aspect can be rendered');
+      }
+      if (!this.renderOptions.single || this.renderOptions.single.expression) {
+        throw new DeveloperError('Hillshade, slope and aspect require single band rendering without an expression');
+      }
+      // the gradient kernel reaches beyond the pixels at the tile border
+      this._buffer = 2;
+    }
+    if (this.renderOptions.contours) {
+      if (!this.renderOptions.single || this.renderOptions.single.expression) {
+        throw new DeveloperError('Contours require single band rendering without an expression');
+      }
+      if (!(this.renderOptions.contours.interval > 0)) {
+        throw new DeveloperError('The contour interval must be positive');
+      }
+      // the distance to the lines is estimated from the neighbouring pixels
+      this._buffer = 2;
+    }
+    if (this._timeDimension === 'band') {
+      if (!this.renderOptions.single || this.renderOptions.single.expression) {
+        throw new DeveloperError('Temporal band mode requires single band rendering without an expression');
+      }
+      this.renderOptions.single.band = this._timeIndex + 1;
+    }
+    const { vector } = this.renderOptions;
+    if (vector) {
+      if (!this.renderOptions.single || this.renderOptions.single.expression || this._timeDimension === 'band') {
+        throw new DeveloperError('Vectors require single band rendering without an expression or temporal bands');
+      }
+      if (getTerrainDomain(this.renderOptions) || this.renderOptions.contours) {
+        throw new DeveloperError('Vectors can not be combined with hillshade, slope, aspect or contours');
+      }
+      vector.u = vector.u ?? 1;
+      vector.v = vector.v ?? 2;
+      if (vector.u > samples || vector.v > samples) {
+        throw new DeveloperError(`Invalid vector bands ${vector.u} and ${vector.v}`);
+      }
+      this.renderOptions.single.band = vector.u;
+    }
 
     const { single, multi, convertToRGB } = this.renderOptions;
     this.readSamples = multi ? [multi.r.band - 1, multi.g.band - 1, multi.b.band - 1] : convertToRGB ? [0, 1, 2] : [single.band - 1];
     if (single?.expression) {
       this.readSamples = findAndSortBandNumbers(single.expression);
     }
+    if (vector) {
+      this.readSamples = [vector.u - 1, vector.v - 1];
+    }
+
+    const sourceKeys = sources.map(item => this._sourceKeys.get(item));
+    if (this.options.persistentCache && sourceKeys.every(key => key)) {
+      // the band of a time step is identified by the step index in the tile key
+      const samplesKey = this._timeDimension === 'band' ? 'time' : this.readSamples;
+      this._tileCacheKey = `tile:${hashString([
+        ...sourceKeys, this.tileWidth, this.tileHeight, this._buffer, samplesKey, convertToRGB, JSON.stringify(this._noData), this._hasAlpha,
+        // tiles of other grids are cached with their georeferencing, and the read windows follow the offset
+        ...(this._proj || this._pixelTransform ? ['mesh'] : []),
+        ...(this._proj && options.coordinateOffset ? [options.coordinateOffset.from, options.coordinateOffset.to] : []),
+        // the levels, the strip reads and the overview choice decide which image a tile is read from
+        this.requestLevels.join(','), sources.map(item => this._stripSources.has(item) ? 'strip' : 'full').join(','), options.overviewTolerance,
+        ...(options.gcp ? [JSON.stringify(options.gcp)] : []),
+        // the reprojection is identified by the CRS, its datum and the native extent
+        ...(this._proj ? [prjCode, getDatumCode(geoKeys), this.bbox.join(','), !!projFunc, !!options.datumShift] : []),
+        ...(outputTilingScheme ? [outputTilingScheme] : []),
+      ].join('|'))}`;
+    }
+
+    // RGB conversion outputs colors instead of sample values
+    const applyScaleOffset = (options.applyScaleOffset ?? true) && !convertToRGB;
+    this._scaleOffsets = new Array(samples).fill(0).map((_, i) => {
+      const metadata = image.getGDALMetadata(i);
+      return {
+        scale: applyScaleOffset && metadata?.SCALE ? +metadata.SCALE : 1,
+        offset: applyScaleOffset && metadata?.OFFSET ? +metadata.OFFSET : 0,
+        unit: metadata?.UNITTYPE || undefined,
+      };
+    });
+
+    // palette images are rendered with their ColorMap unless a color scale is set
+    const palette = single && !single.expression && !getTerrainDomain(this.renderOptions) && !vector && single.band === 1 && !single.colors && !single.colorScale && !single.colorScaleImage ?
+      getPaletteColors(image) :
+      undefined;
 
     // Get the maximum and minimum value information of the band
     const bands: Record<number, {
       min: number;
       max: number;
+      unit?: string;
     }> = {};
-    await Promise.all(this.readSamples.map(async (i) => {
-      const element = image.getGDALMetadata(i);
+    // every time step band is rendered with the same domain
+    const statSamples = this._timeDimension === 'band' ? this.times.map((_, i) => i) : this.readSamples;
+    await Promise.all(statSamples.map(async (i) => {
+      // all mosaic sources and time step pages share one min/max
+      const elements = this._mosaic ? this._mosaic.map(item => item.images[0].getGDALMetadata(i)) :
+        this._pages ? this._pages.slice(0, this.times.length).map(page => page.images[0].getGDALMetadata(i)) :
+          [image.getGDALMetadata(i)];
       const bandNum = i + 1;
 
-      if (element?.STATISTICS_MINIMUM && element?.STATISTICS_MAXIMUM) {
-        bands[bandNum] = {
-          min: +element.STATISTICS_MINIMUM,
-          max: +element.STATISTICS_MAXIMUM,
-        }
+      if (elements.every(element => element?.STATISTICS_MINIMUM && element?.STATISTICS_MAXIMUM)) {
+        // statistics are computed on stored values
+        bands[bandNum] = this._toValueRange(i, [
+          Math.min(...elements.map(element => +element.STATISTICS_MINIMUM)),
+          Math.max(...elements.map(element => +element.STATISTICS_MAXIMUM)),
+        ]);
       } else {
         if (convertToRGB) {
           bands[bandNum] = {
@@ -370,36 +801,60 @@ export class TIFFImageryProvider {
           }
         }
 
-        if (single && !single.expression && single.band === bandNum && single.domain) {
+        // the domain of the terrain modes is the range of the derived values
+        if (single && !single.expression && !getTerrainDomain(this.renderOptions) && !vector && single.band === bandNum && single.domain) {
           bands[bandNum] = {
             min: single.domain[0],
             max: single.domain[1],
           }
         }
 
+        if (palette && single.band === bandNum && !bands[bandNum]) {
+          bands[bandNum] = {
+            min: 0,
+            max: palette.length / 4 - 1,
+          }
+        }
+
         if (!single?.expression && !bands[bandNum]) {
           // Try to get the maximum and minimum values ​​of the band
           console.warn(`Can not get band${bandNum} min/max, try to calculate min/max values, or setting ${single ? 'domain' : 'min / max'}`)
 
-          const previewImage = await source.getImage(this.requestLevels[0])
-          const data = (await previewImage.readRasters({
-            samples: [i],
-            pool: this.geotiffWorkerPool,
-          }) as unknown as number[][])[0].filter((item: any) => !isNaN(item))
-          bands[bandNum] = getMinMax(data, noData)
+          const previewImages = this._mosaic ?
+            this._mosaic.map(item => item.images[item.images.length - 1]) :
+            this._pages ? this._pages.slice(0, this.times.length).map(page => page.images[this.requestLevels[0]]) :
+              [this._images[this.requestLevels[0]]];
+          const ranges = (await Promise.all(previewImages.map(async previewImage => {
+            const data = (await previewImage.readRasters({
+              samples: [i],
+              pool: this.geotiffWorkerPool,
+            }) as unknown as number[][])[0].filter((item: any) => !isNaN(item))
+            return getMinMax(data, this._noData[i])
+          }))).filter(range => range.min !== undefined);
+          bands[bandNum] = this._toValueRange(i, [
+            Math.min(...ranges.map(range => range.min)),
+            Math.max(...ranges.map(range => range.max)),
+          ]);
         }
       }
+      if (bands[bandNum] && this._scaleOffsets[i].unit) {
+        bands[bandNum].unit = this._scaleOffsets[i].unit;
+      }
     }))
     this.bands = bands;
 
     try {
       // 如果是单波段渲染,创建plot对象
       if (this.renderOptions.single) {
-        const band = this.bands[single.band];
+        const stepBands = this._timeDimension === 'band' ? this.times.map((_, i) => this.bands[i + 1]) : [this.bands[single.band]];
+        const band = stepBands.every(item => item) ? {
+          min: Math.min(...stepBands.map(item => item.min)),
+          max: Math.max(...stepBands.map(item => item.max)),
+        } : undefined;
         if (!single.expression && !band) {
           throw new DeveloperError(`Invalid band${single.band}`);
         }
-        const domain = single.domain ?? [band.min, band.max]
+        const domain = single.domain ?? getTerrainDomain(this.renderOptions) ?? (vector ? [0, this._getMaxSpeed()] : [band.min, band.max])
         this.plot = new plot({
           canvas,
           ...single,
@@ -408,7 +863,8 @@ export class TIFFImageryProvider {
           tileHeight: this.tileHeight,
           buffer: this._buffer
         })
-        this.plot.setNoDataValue(this.noData);
+        // the nodata of each band is matched when its dataset is added
+        this.plot.setNoDataValue(NaN);
 
         const { expression, colors, colorScaleImage } = single;
         this.plot.setExpression(expression);
@@ -419,6 +875,16 @@ export class TIFFImageryProvider {
         } else if (!colorScaleImage) {
           this.plot.setColorScale(single?.colorScale ?? 'blackwhite');
         }
+        if (palette) {
+          this.plot.setPalette(palette);
+        }
+        this.plot.setHillshade(this.renderOptions.hillshade);
+        this.plot.setSlope(this.renderOptions.slope);
+        this.plot.setAspect(this.renderOptions.aspect);
+        this.plot.setContours(this.renderOptions.contours);
+        if (vector?.fill) {
+          this.plot.setExpression(`sqrt(b${vector.u} * b${vector.u} + b${vector.v} * b${vector.v})`);
+        }
       }
 
       // 如果是RGB渲染,创建RGB plot对象
@@ -429,7 +895,7 @@ export class TIFFImageryProvider {
           tileHeight: this.tileHeight,
           buffer: this._buffer
         });
-        this._rgbPlot.setNoDataValue(this.noData);
+        this._rgbPlot.setNoDataValue(NaN);
       }
 
     } catch (e) {
@@ -438,9 +904,16 @@ export class TIFFImageryProvider {
     }
     this.readyPromise = Promise.resolve(true);
     this.ready = true;
+    if (time?.clock) {
+      this.bindClock(time.clock);
+    }
   }
 
-  static async fromUrl(url: string | File | Blob, options: TIFFImageryProviderOptions = {}) {
+  /**
+   * Create a provider from a GeoTIFF/COG, or mosaic several adjacent files sharing the same projection and bands
+   * into one provider.
+   */
+  static async fromUrl(url: TIFFImageryProviderUrl | TIFFImageryProviderUrl[], options: TIFFImageryProviderOptions = {}) {
     const provider = new TIFFImageryProvider(options as any);
 
     await provider._build(url, {
@@ -451,6 +924,224 @@ export class TIFFImageryProvider {
     return provider;
   }
 
+  /**
+   * Create a provider from a STAC Item or ItemCollection. The selected COG assets are stacked as bands in order,
+   * items of a collection are mosaicked. Band statistics, nodata, scale and offset are read from
+   * ``raster:bands``, asset keys and ``eo:bands`` names can be used as band references in ``single.expression``.
+   * @example
+   * TIFFImageryProvider.fromStac(itemUrl, {
+   *   assets: ['B04', 'B08'],
+   *   renderOptions: { single: { expression: '(B08 - B04) / (B08 + B04)', domain: [-1, 1] } }
+   * })
+   */
+  static async fromStac(itemOrUrl: string | Resource | StacItem | StacItemCollection, options: TIFFImageryProviderOptions & {
+    /** asset keys to stack as bands, defaults to all GeoTIFF assets with the data role */
+    assets?: string[];
+  } = {}) {
+    const { assets, ...rest } = options;
+    const provider = new TIFFImageryProvider(rest as any);
+    const fetchFn = provider._getFetch(itemOrUrl);
+    const items = await resolveStacItems(itemOrUrl instanceof Resource ? itemOrUrl.url : itemOrUrl, rest.requestOptions?.headers, fetchFn);
+    if (!items.length) {
+      throw new DeveloperError('STAC ItemCollection has no items');
+    }
+
+    let bandNames: [string, number][] = [];
+    const sources = await Promise.all(items.map(async (item, index) => {
+      const keys = selectStacAssets(item, assets);
+      if (!keys.length) {
+        throw new DeveloperError(`STAC item ${item.id} has no GeoTIFF assets`);
+      }
+      const layers = await Promise.all(keys.map(async key => ({
+        source: await provider._openSource(item.assets[key].href, rest.requestOptions, fetchFn),
+        ...getStacBandMetadata(item.assets[key]),
+      })));
+      if (index === 0) {
+        const samples = await Promise.all(layers.map(async ({ source }) => (await source.getImage()).getSamplesPerPixel()));
+        bandNames = getStacBandNames(item, keys, samples);
+      }
+      const stacked = await StackedGeoTIFF.fromLayers(layers) as unknown as GeoTIFF;
+      provider._setCompositeKey(stacked, layers.map(({ source }) => source));
+      return stacked;
+    }));
+
+    const renderOptions = { ...rest.renderOptions };
+    if (renderOptions.single?.expression) {
+      renderOptions.single = {
+        ...renderOptions.single,
+        expression: replaceBandNames(renderOptions.single.expression, bandNames),
+      };
+    }
+
+    await provider._build(sources.length > 1 ? sources : sources[0], {
+      ...rest,
+      renderOptions,
+      url: undefined
+    } as any)
+
+    return provider;
+  }
+
+  /**
+   * Get the fetch function used for requests of the url, undefined means the geotiff default clients
+   */
+  private _getFetch(url: TIFFImageryProviderSource | StacItem | StacItemCollection): FetchFunction | undefined {
+    if (url instanceof Resource) {
+      return createResourceFetch(url, this.options.fetch);
+    }
+    return this.options.fetch;
+  }
+
+  private async _openSource(
+    url: TIFFImageryProviderSource,
+    requestOptions: TIFFImageryProviderOptions['requestOptions'],
+    fetchFn = this._getFetch(url)
+  ): Promise<GeoTIFF> {
+    if (typeof url !== 'string' && !(url instanceof Blob) && !(url instanceof Resource)) return url;
+
+    const href = url instanceof Resource ? url.url : url;
+    const cache = this.options.persistentCache;
+    const tracker = trackValidator(fetchFn ?? fetch);
+    const request = (input: string) => tracker.fetch(input, { headers: requestOptions?.headers });
+
+    if (isVRT(href)) {
+      const xml = typeof href === 'string' ? await (await request(href)).text() : await href.text();
+      const baseUrl = typeof href === 'string' ? new URL(href, globalThis.location?.href).href : undefined;
+      const sources: GeoTIFF[] = [];
+      const vrt = await VRTGeoTIFF.fromDefinition(
+        parseVRT(xml, baseUrl),
+        async (sourceUrl) => {
+          const source = await this._openSource(sourceUrl, requestOptions, fetchFn);
+          sources.push(source);
+          return source;
+        },
+        this.options.tileSize
+      ) as unknown as GeoTIFF;
+      if (tracker.validator) {
+        this._setCompositeKey(vrt, sources, [`${href}@${tracker.validator}`]);
+      }
+      return vrt;
+    }
+
+    if (typeof href !== 'string') {
+      return await fromBlob(href);
+    }
+
+    // the custom client records the validator of the persistent cache keys and serves the cached header ranges
+    const headerCache = cache && cacheHeaderResponses(cache, href, tracker);
+    let source = await (fetchFn || cache ?
+      fromCustomClient(new CustomFetchClient(href, headerCache?.fetch ?? tracker.fetch, requestOptions?.credentials), requestOptions) :
+      fromUrl(href, requestOptions));
+    if (headerCache) {
+      // every directory is read while the header ranges are recorded
+      await source.getImageCount();
+      await headerCache.finish();
+    }
+    const key = tracker.validator ? `${href}@${tracker.validator}` : undefined;
+
+    // non-tiled files are read strip by strip with range requests unless a full download is cheaper
+    if (!(await source.getImage()).isTiled) {
+      if (await getStripDataSize(source) <= (this.options.fullDownloadThreshold ?? 16 * 1024 * 1024)) {
+        source = await fromBlob(await (await request(href)).blob());
+      } else {
+        this._stripSources.add(source);
+      }
+    }
+    if (key) {
+      this._sourceKeys.set(source, key);
+    }
+    return source;
+  }
+
+  /**
+   * Set the persistent cache key of a source read from other sources, only if every part has a key
+   */
+  private _setCompositeKey(source: GeoTIFF, parts: GeoTIFF[], own: string[] = []) {
+    const keys = parts.map(part => this._sourceKeys.get(part));
+    if (keys.every(key => key)) {
+      this._sourceKeys.set(source, [...own, ...keys].join('|'));
+    }
+  }
+
+  /**
+   * Split the images of a source into images and mask images
+   */
+  private async _readImages(source: GeoTIFF) {
+    const images: GeoTIFFImage[] = [];
+    const masks: GeoTIFFImage[] = [];
+    const imageCount = await source.getImageCount();
+    for (let i = 0; i < imageCount; i++) {
+      const img = await source.getImage(i);
+      if (this._isMask(img)) {
+        masks.push(img);
+      } else {
+        images.push(img);
+      }
+    }
+    return { images, masks };
+  }
+
+  /**
+   * Split the images of a source into full resolution pages, each followed by its overviews and masks
+   */
+  private async _readPages(source: GeoTIFF) {
+    const pages: { images: GeoTIFFImage[]; masks: GeoTIFFImage[]; }[] = [];
+    const imageCount = await source.getImageCount();
+    for (let i = 0; i < imageCount; i++) {
+      const img = await source.getImage(i);
+      if (this._isMask(img)) {
+        pages[pages.length - 1]?.masks.push(img);
+      } else if (isOverviewImage(img) && pages.length) {
+        pages[pages.length - 1].images.push(img);
+      } else {
+        pages.push({ images: [img], masks: [] });
+      }
+    }
+    return pages;
+  }
+
+  /**
+   * Convert a stored value range of a sample to a value range, a negative scale swaps the bounds
+   */
+  private _toValueRange(sample: number, [min, max]: number[]) {
+    const { scale, offset } = this._scaleOffsets[sample];
+    const values = [min * scale + offset, max * scale + offset];
+    return {
+      min: Math.min(...values),
+      max: Math.max(...values),
+    };
+  }
+
+  /**
+   * Read the opacity of a window from the mask image of the same size, or from the alpha band
+   * @param read reads the image, defaults to readRasters
+   * @returns opacity in the range 0-1, undefined if the image has neither
+   */
+  private async _readAlpha(
+    image: GeoTIFFImage,
+    masks: GeoTIFFImage[],
+    options: ReadRasterOptions,
+    read = (target: GeoTIFFImage, readOptions: ReadRasterOptions) => target.readRasters(readOptions)
+  ) {
+    const mask = masks.find(item => item.getWidth() === image.getWidth() && item.getHeight() === image.getHeight());
+    const alphaSample = getAlphaSample(image);
+    if (!mask && !alphaSample) return undefined;
+
+    const [array] = await read(mask ?? image, {
+      ...options,
+      samples: [mask ? 0 : alphaSample.index],
+      fillValue: 0,
+      interleave: false,
+    }) as TypedArray[];
+    // 1 bit masks are read as 0 / 1
+    const max = mask ? 2 ** (mask.fileDirectory.BitsPerSample?.[0] ?? 8) - 1 : alphaSample.max;
+    return normalizeAlpha(array, max);
+  }
+
+  private _getPrjCode(image: GeoTIFFImage) {
+    return +(image.geoKeys.ProjectedCSTypeGeoKey ?? image.geoKeys.GeographicTypeGeoKey);
+  }
+
   /**
    * Get the origin of an image.  If the image does not have an affine transform,
    * the top-left corner of the pixel bounds is returned.
@@ -458,61 +1149,56 @@ export class TIFFImageryProvider {
    * @return {Array<number>} The image origin.
    */
   private _getOrigin(image: GeoTIFFImage): number[] {
+    const geoTransform = getGeoTransform(image);
+    if (geoTransform) {
+      return [geoTransform[0], geoTransform[3]];
+    }
     try {
       return image.getOrigin().slice(0, 2);
     } catch (_) {
       return [0, image.fileDirectory.ImageLength];
     }
   }
+  /**
+   * Get the footprint of an image, PixelIsPoint rasters are shifted by half a pixel
+   */
+  private _getBoundingBox(image: GeoTIFFImage): BBox {
+    const geoTransform = getGeoTransform(image);
+    return geoTransform ?
+      getFootprintBBox(createAffineTransform(geoTransform), image.getWidth(), image.getHeight()) :
+      image.getBoundingBox() as BBox;
+  }
+
   private _isMask(image: GeoTIFFImage): boolean {
-  const fileDirectory = image.fileDirectory;
-  const type = fileDirectory.NewSubfileType || 0;
-  return (type & 4) === 4;
-}
+    return isMaskImage(image);
+  }
 
+  /**
+   * Whether the rows of the image go from south to north, i.e. the Y term of the geotransform is positive
+   */
   private _checkIfReversed(image: GeoTIFFImage) {
-    const pixelScale = image.getFileDirectory().ModelPixelScale;
-    if (pixelScale) {
-      const pixelScaleY = pixelScale[1];
-      if (pixelScaleY < 0) return true;
-    }
-
-    const transformation = image.getFileDirectory().ModelTransformation;
-    if (transformation) {
-      const originX = transformation[3];
-      const originY = transformation[7];
-      if (originY > originX) return true;
-    }
-    return false;
+    const gt = getGeoTransform(image);
+    return !!gt && gt[5] > 0;
   }
 
   /**
-   * get suitable cog levels
+   * Select the image of every level from its pixel size against the tile resolution of the level,
+   * levels deeper than the first level reading the full resolution image reuse its tiles.
+   * Strips are decimated while reading, their levels continue until the full resolution matches the tile resolution.
    */
-  private async _getCogLevels() {
+  private _getCogLevels() {
+    const [west, south, east, north] = this.bbox;
+    const tolerance = this.options.overviewTolerance ?? 1;
+    const finest = this._images.reduce((pre, image, i) => image.getWidth() > this._images[pre].getWidth() ? i : pre, 0);
     const levels: number[] = [];
-    let maximumLevel: number = this._imageCount - 1;
-    for (let i = this._imageCount - 1; i >= 0; i--) {
-      const image = this._images[i] ;
-      const width = image.getWidth();
-      const height = image.getHeight();
-      const size = Math.max(width, height);
-
-      // If the image tileSize of the first tile is greater than 256, the sequence will be delayed to reduce the amount of requests.
-      if (i === this._imageCount - 1) {
-        const firstImageLevel = Math.ceil((size - this.tileSize) / this.tileSize)
-        levels.push(...new Array(firstImageLevel).fill(i))
-      }
-
-      // add 50% tilewidth tolerance
-      if (size > (this.tileSize * 0.5)) {
-        maximumLevel = i;
-        break;
-      }
-    }
-    let nowCogLevel: number = maximumLevel;
-    while (nowCogLevel >= 0) {
-      levels.push(nowCogLevel--);
+    for (let z = 0; z < 32; z++) {
+      const resX = (east - west) / this.tilingScheme.getNumberOfXTilesAtLevel(z) / this.tileWidth;
+      const resY = (north - south) / this.tilingScheme.getNumberOfYTilesAtLevel(z) / this.tileHeight;
+      const index = selectOverviewIndex(this._images, this.bbox as BBox, [resX, resY], tolerance);
+      levels.push(index);
+      const image = this._images[index];
+      const stride = Math.min(resX * image.getWidth() / (east - west), resY * image.getHeight() / (north - south));
+      if (index === finest && (this._isTiled || stride < 2)) break;
     }
     return levels;
   }
@@ -525,6 +1211,8 @@ export class TIFFImageryProvider {
    */
   private async _loadTile(reqx: number, reqy: number, reqz: number) {
     try {
+      // the active time step may change while the tile loads
+      const { readSamples, _images: images, _masks: masks, _timeIndex: timeIndex } = this;
       let x = reqx, y = reqy, z = reqz, startX = reqx, startY = reqy;
       const maxCogLevel = this.requestLevels.length - 1;
       if (z > maxCogLevel) {
@@ -535,10 +1223,25 @@ export class TIFFImageryProvider {
         startY = y << (reqz - z);
       }
 
+      const tileNum = 1 << (reqz - z)
+      const x0 = (reqx - startX) / tileNum;
+      const y0 = (reqy - startY) / tileNum;
+      const step = 1 / (1 << (reqz - z))
+      const x1 = x0 + step;
+      const y1 = y0 + step;
+
+      const cached = await this._getCachedTile(x, y, z, timeIndex);
+      if (cached) {
+        return {
+          ...cached,
+          window: [x0, y0, x1, y1] as [number, number, number, number]
+        };
+      }
+
       const index = this.requestLevels[z];
-      let image = this._images[index];
+      let image = images[index];
       if (!image) {
-        image = this._images[index] = await this._source.getImage(index);
+        image = images[index] = await this._source.getImage(index);
       }
 
       const width = image.getWidth();
@@ -571,17 +1274,44 @@ export class TIFFImageryProvider {
           ~~((nativeRect.north - targetRect.south) / nativeRect.height * height),
         ]
       }
+      // the window from the top left before flipping, the native bounding box of reprojected data is computed from it
+      const topWindow = window;
       if (this.reverseY) {
         window = [window[0], height - window[3], window[2], height - window[1]];
       }
+      // strips are read at a reduced row and column step when the window is much larger than the tile
+      const stride = image.isTiled ? 1 : Math.min((window[2] - window[0]) / this.tileWidth, (window[3] - window[1]) / this.tileHeight);
+      const decimated = stride >= 2 && (!this.renderOptions.convertToRGB || image.fileDirectory.PhotometricInterpretation === 2);
+      const columns = decimated ? getSampledPixels(window[0], window[2], Math.round((window[2] - window[0]) / stride), this._buffer) : undefined;
+      const rows = decimated ? getSampledPixels(window[1], window[3], Math.round((window[3] - window[1]) / stride), this._buffer) : undefined;
+      const read = (target: GeoTIFFImage, readOptions: ReadRasterOptions) => decimated ?
+        readStripSamples(target, rows, columns, readOptions) :
+        target.readRasters(readOptions);
+
       window = [window[0] - this._buffer, window[1] - this._buffer, window[2] + this._buffer, window[3] + this._buffer]
-      const sourceWidth = window[2] - window[0], sourceHeight = window[3] - window[1];
+      const sourceWidth = decimated ? columns.length : window[2] - window[0];
+      const sourceHeight = decimated ? rows.length : window[3] - window[1];
+
+      let bbox: BBox;
+      if (this._proj?.project && this.tilingScheme instanceof TIFFImageryProviderTilingScheme) {
+        // the buffer pixels extend the window by one data pixel, which spans several image pixels when decimated
+        const nativeRect = this.tilingScheme.nativeRectangle;
+        const stepX = (topWindow[2] - topWindow[0]) / (sourceWidth - this._buffer * 2);
+        const stepY = (topWindow[3] - topWindow[1]) / (sourceHeight - this._buffer * 2);
+        const pixelX = nativeRect.width / width, pixelY = nativeRect.height / height;
+        bbox = [
+          nativeRect.west + (topWindow[0] - this._buffer * stepX) * pixelX,
+          nativeRect.north - (topWindow[3] + this._buffer * stepY) * pixelY,
+          nativeRect.west + (topWindow[2] + this._buffer * stepX) * pixelX,
+          nativeRect.north - (topWindow[1] - this._buffer * stepY) * pixelY,
+        ];
+      }
 
       const options = {
         window,
         pool: this.geotiffWorkerPool,
-        samples: this.readSamples,
-        fillValue: this.noData,
+        samples: readSamples,
+        fillValue: this._getFillValue(readSamples),
         interleave: false,
       }
 
@@ -592,10 +1322,16 @@ export class TIFFImageryProvider {
       const timeoutId = setTimeout(() => abortController.abort(), 30000); // 30秒超时
 
       try {
-        if (this.renderOptions.convertToRGB) {
+        if (this.renderOptions.convertToRGB && !decimated) {
           res = await image.readRGB(options) as TypedArrayArrayWithDimensions;
         } else {
-          res = await image.readRasters(options) as TypedArrayArrayWithDimensions;
+          res = await read(image, options) as TypedArrayArrayWithDimensions;
+        }
+
+        // the transparency channel follows the bands
+        if (this._hasAlpha) {
+          const alpha = await this._readAlpha(image, masks, options, read);
+          res = [...res as TypedArray[], alpha ?? new Float32Array(sourceWidth * sourceHeight).fill(1)];
         }
 
         if (this.reverseY) {
@@ -604,55 +1340,11 @@ export class TIFFImageryProvider {
           )) as TypedArray[];
         }
 
-        if (this._proj?.project && this.tilingScheme instanceof TIFFImageryProviderTilingScheme) {
-          const sourceRect = this.tilingScheme.tileXYToNativeRectangle2(x, y, z);
-          const targetRect = this.tilingScheme.tileXYToRectangle(x, y, z);
-
-          const sourceBBox: BBox = [sourceRect.west, sourceRect.south, sourceRect.east, sourceRect.north];
-          const targetBBox = [targetRect.west, targetRect.south, targetRect.east, targetRect.north].map(CesiumMath.toDegrees) as BBox;
-
-          const result: TypedArray[] = [];
-          for (let i = 0; i < res.length; i++) {
-            try {
-              // 在循环中释放临时数据
-              const sourceData = res[i] as TypedArray;
-              const prjData = await reprojection({
-                data: sourceData,
-                sourceWidth,
-                sourceHeight,
-                nodata: this.noData,
-                project: this._proj.project,
-                sourceBBox,
-                targetBBox,
-              });
-              result.push(prjData);
-            } finally {
-              // 如果不是最后一个通道，释放源数据
-              if (i < res.length - 1 && res[i]) {
-                try {
-                  (res[i] as TypedArray).fill(0);
-                  res[i] = null;
-                } catch (e) {
-                  console.warn('Failed to clean up channel data:', e);
-                }
-              }
-            }
-          }
-          res = result;
-        }
-
-        const tileNum = 1 << (reqz - z)
-        const x0 = (reqx - startX) / tileNum;
-        const y0 = (reqy - startY) / tileNum;
-        const step = 1 / (1 << (reqz - z))
-        const x1 = x0 + step;
-        const y1 = y0 + step;
-
         clearTimeout(timeoutId);
+        const tile: TileData = { data: res as TypedArray[], width: sourceWidth, height: sourceHeight, bbox };
+        this._setCachedTile(x, y, z, timeIndex, tile);
         return {
-          data: res,
-          width: sourceWidth,
-          height: sourceHeight,
+          ...tile,
           window: [x0, y0, x1, y1] as [number, number, number, number]
         };
       } catch (error) {
@@ -667,6 +1359,383 @@ export class TIFFImageryProvider {
     }
   }
 
+  /**
+   * Fill value of each read sample, pixels outside of the image are nodata
+   */
+  private _getFillValue(readSamples: number[]) {
+    return readSamples.map(sample => getNoDataFill(this._noData[sample]));
+  }
+
+  /**
+   * Get the tile bounding box in the native CRS of the tiling scheme, or in the native CRS of the TIFF
+   * when tiles are output in a standard tiling scheme
+   */
+  private _getTileNativeBBox(x: number, y: number, z: number): BBox {
+    if (this._sourceProj) {
+      return transformBBox(this._getOutputTileBBox(x, y, z), pos => this._outputToNative(pos));
+    }
+    if (this.tilingScheme instanceof TIFFImageryProviderTilingScheme) {
+      const rect = this.tilingScheme.tileXYToNativeRectangle2(x, y, z);
+      return [rect.west, rect.south, rect.east, rect.north];
+    }
+    if (this.tilingScheme instanceof WebMercatorTilingScheme) {
+      const rect = this.tilingScheme.tileXYToNativeRectangle(x, y, z);
+      return [rect.west, rect.south, rect.east, rect.north];
+    }
+    const rect = this.tilingScheme.tileXYToRectangle(x, y, z);
+    return [rect.west, rect.south, rect.east, rect.north].map(CesiumMath.toDegrees) as BBox;
+  }
+
+  /**
+   * Get the tile bounding box in the CRS its image is rendered in when tiles are output in a standard tiling scheme,
+   * metres for web mercator and degrees for geographic tiles
+   */
+  private _getOutputTileBBox(x: number, y: number, z: number): BBox {
+    if (this.tilingScheme instanceof WebMercatorTilingScheme) {
+      const rect = this.tilingScheme.tileXYToNativeRectangle(x, y, z);
+      return [rect.west, rect.south, rect.east, rect.north];
+    }
+    const rect = this.tilingScheme.tileXYToRectangle(x, y, z);
+    return [rect.west, rect.south, rect.east, rect.north].map(CesiumMath.toDegrees) as BBox;
+  }
+
+  /**
+   * Convert a position of an output tile image to the native CRS of the TIFF
+   */
+  private _outputToNative(pos: number[]): number[] {
+    return this._sourceProj.project(this.tilingScheme instanceof WebMercatorTilingScheme ? webMercator.unproject(pos) : pos);
+  }
+
+  /**
+   * Convert a cartographic position (radians) to the native CRS of the tiling scheme
+   */
+  private _cartographicToNative(longitude: number, latitude: number): number[] {
+    if (this._sourceProj) {
+      return this._sourceProj.project([longitude, latitude].map(CesiumMath.toDegrees));
+    }
+    if (this.tilingScheme instanceof TIFFImageryProviderTilingScheme) {
+      return this._proj.project([longitude, latitude].map(CesiumMath.toDegrees));
+    }
+    if (this.tilingScheme instanceof WebMercatorTilingScheme) {
+      const { x, y } = this.tilingScheme.projection.project(new Cartographic(longitude, latitude));
+      return [x, y];
+    }
+    return [longitude, latitude].map(CesiumMath.toDegrees);
+  }
+
+  /**
+   * Get mosaic tile data, every source intersecting the tile is read at the overview closest to the tile resolution
+   * and merged into one window, later sources are drawn over earlier ones.
+   */
+  private async _loadMosaicTile(x: number, y: number, z: number) {
+    try {
+      const { readSamples, _timeIndex: timeIndex } = this;
+      const cached = await this._getCachedTile(x, y, z, timeIndex);
+      if (cached) {
+        return {
+          ...cached,
+          window: [0, 0, 1, 1] as [number, number, number, number]
+        };
+      }
+
+      const buffer = this._buffer;
+      const tileBBox = this._getTileNativeBBox(x, y, z);
+      const resX = (tileBBox[2] - tileBBox[0]) / this.tileWidth;
+      const resY = (tileBBox[3] - tileBBox[1]) / this.tileHeight;
+      const bbox: BBox = [
+        tileBBox[0] - resX * buffer,
+        tileBBox[1] - resY * buffer,
+        tileBBox[2] + resX * buffer,
+        tileBBox[3] + resY * buffer,
+      ];
+      const width = this.tileWidth + buffer * 2;
+      const height = this.tileHeight + buffer * 2;
+
+      const reads = await Promise.all(this._mosaic.map(async ({ images, masks, bbox: sourceBBox, reverseY }) => {
+        const intersect = intersectBBox(bbox, sourceBBox);
+        if (!intersect) return undefined;
+
+        const image = selectOverview(images, sourceBBox, [resX, resY], this.options.overviewTolerance);
+        const imageWidth = image.getWidth(), imageHeight = image.getHeight();
+        const window = bboxToWindow(intersect, sourceBBox, imageWidth, imageHeight, reverseY);
+        if (window[2] <= window[0] || window[3] <= window[1]) return undefined;
+
+        // align the snapped image window with the tile grid
+        const pixelX = (sourceBBox[2] - sourceBBox[0]) / imageWidth;
+        const pixelY = (sourceBBox[3] - sourceBBox[1]) / imageHeight;
+        const windowWest = sourceBBox[0] + window[0] * pixelX;
+        const windowNorth = reverseY ? sourceBBox[1] + window[3] * pixelY : sourceBBox[3] - window[1] * pixelY;
+        const target = [
+          Math.round((windowWest - bbox[0]) / resX),
+          Math.round((bbox[3] - windowNorth) / resY),
+          Math.max(1, Math.round((window[2] - window[0]) * pixelX / resX)),
+          Math.max(1, Math.round((window[3] - window[1]) * pixelY / resY)),
+        ];
+
+        const options = {
+          window,
+          width: target[2],
+          height: target[3],
+          pool: this.geotiffWorkerPool,
+          samples: readSamples,
+          fillValue: this._getFillValue(readSamples),
+          interleave: false,
+        }
+        // strips are read at a reduced row and column step when the window is much larger than the target
+        const decimated = !image.isTiled && (window[2] - window[0]) >= target[2] * 2 && (window[3] - window[1]) >= target[3] * 2 &&
+          (!this.renderOptions.convertToRGB || image.fileDirectory.PhotometricInterpretation === 2);
+        const read = (source: GeoTIFFImage, readOptions: ReadRasterOptions) => decimated ?
+          readStripSamples(source, getSampledPixels(window[1], window[3], target[3]), getSampledPixels(window[0], window[2], target[2]), readOptions) :
+          source.readRasters(readOptions);
+        let data = (this.renderOptions.convertToRGB && !decimated ? await image.readRGB(options) : await read(image, options)) as TypedArray[];
+        let alpha: TypedArray = this._hasAlpha ? await this._readAlpha(image, masks, options, read) : undefined;
+        if (reverseY) {
+          data = await Promise.all(data.map((array) =>
+            reverseArray({ array, width: target[2], height: target[3] })
+          ));
+          alpha = alpha && await reverseArray({ array: alpha, width: target[2], height: target[3] });
+        }
+        return { data, alpha, target };
+      }));
+
+      const res: TypedArray[] = readSamples.map(sample => new Float32Array(width * height).fill(getNoDataFill(this._noData[sample]) ?? NaN));
+      const alpha = this._hasAlpha ? new Float32Array(width * height).fill(1) : undefined;
+      reads.forEach(read => {
+        if (!read) return;
+        // masked pixels do not cover the sources below
+        res.forEach((array, index) =>
+          pasteWindow(array, width, height, read.data[index], read.target, this._noData[readSamples[index]], read.alpha)
+        );
+        if (alpha) {
+          const sourceAlpha = Float32Array.from(read.data[0], (val, i) =>
+            isNoData(val, this._noData[readSamples[0]]) ? 0 : read.alpha?.[i] ?? 1
+          );
+          pasteWindow(alpha, width, height, sourceAlpha, read.target, 0);
+        }
+      });
+      if (alpha) {
+        res.push(alpha);
+      }
+
+      const tile: TileData = { data: res, width, height, bbox };
+      this._setCachedTile(x, y, z, timeIndex, tile);
+      return {
+        ...tile,
+        window: [0, 0, 1, 1] as [number, number, number, number]
+      };
+    } catch (error) {
+      this.errorEvent.raiseEvent(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get tile data of a rotated, sheared or GCP georeferenced image: the window of the overview closest to the tile
+   * resolution is read, the tile grid is mapped into it through the inverse pixel transform when rendering.
+   */
+  private async _loadWarpedTile(x: number, y: number, z: number) {
+    try {
+      const { readSamples, _images: images, _masks: masks, _timeIndex: timeIndex } = this;
+      const cached = await this._getCachedTile(x, y, z, timeIndex);
+      if (cached) {
+        return {
+          ...cached,
+          window: [0, 0, 1, 1] as [number, number, number, number]
+        };
+      }
+
+      const buffer = this._buffer;
+      const width = this.tileWidth + buffer * 2;
+      const height = this.tileHeight + buffer * 2;
+      const expand = (bbox: BBox): BBox => {
+        const bufferX = (bbox[2] - bbox[0]) / this.tileWidth * buffer;
+        const bufferY = (bbox[3] - bbox[1]) / this.tileHeight * buffer;
+        return [bbox[0] - bufferX, bbox[1] - bufferY, bbox[2] + bufferX, bbox[3] + bufferY];
+      }
+      const nativeBBox = expand(this._getTileNativeBBox(x, y, z));
+
+      // select the overview by its pixel size along the rows and columns of the image
+      const fullWidth = images[0].getWidth(), fullHeight = images[0].getHeight();
+      const [pixelX, pixelY] = getPixelSize(this._pixelTransform, fullWidth, fullHeight);
+      const image = selectOverview(
+        images,
+        [0, 0, pixelX * fullWidth, pixelY * fullHeight],
+        [(nativeBBox[2] - nativeBBox[0]) / width, (nativeBBox[3] - nativeBBox[1]) / height],
+        this.options.overviewTolerance
+      );
+      const imageWidth = image.getWidth(), imageHeight = image.getHeight();
+      const scaleX = fullWidth / imageWidth, scaleY = fullHeight / imageHeight;
+      const window = bboxToPixelWindow(this._pixelTransform, nativeBBox, imageWidth, imageHeight, scaleX, scaleY);
+      const windowWidth = window[2] - window[0], windowHeight = window[3] - window[1];
+
+      let tile: TileData;
+      if (windowWidth > 0 && windowHeight > 0) {
+        // strips are read at a reduced row and column step when the window is much larger than the tile
+        const stride = image.isTiled ? 1 : Math.min(windowWidth / width, windowHeight / height);
+        const dataWidth = stride >= 2 ? Math.round(windowWidth / stride) : windowWidth;
+        const dataHeight = stride >= 2 ? Math.round(windowHeight / stride) : windowHeight;
+        const read = (source: GeoTIFFImage, readOptions: ReadRasterOptions) => stride >= 2 ?
+          readStripSamples(source, getSampledPixels(window[1], window[3], dataHeight), getSampledPixels(window[0], window[2], dataWidth), readOptions) :
+          source.readRasters(readOptions);
+
+        const options = {
+          window,
+          pool: this.geotiffWorkerPool,
+          samples: readSamples,
+          fillValue: this._getFillValue(readSamples),
+          interleave: false,
+        }
+        const data = (this.renderOptions.convertToRGB && stride < 2 ? await image.readRGB(options) : await read(image, options)) as TypedArray[];
+        // the transparency channel follows the bands
+        if (this._hasAlpha) {
+          const alpha = await this._readAlpha(image, masks, options, read);
+          data.push(alpha ?? new Float32Array(dataWidth * dataHeight).fill(1));
+        }
+
+        const pixelScaleX = dataWidth / windowWidth, pixelScaleY = dataHeight / windowHeight;
+        tile = {
+          data,
+          width: dataWidth,
+          height: dataHeight,
+          pixelScaleOffset: [pixelScaleX / scaleX, -window[0] * pixelScaleX, pixelScaleY / scaleY, -window[1] * pixelScaleY],
+        };
+      } else {
+        const res = this._getFillValue(readSamples).map(fill => new Float32Array(width * height).fill(fill ?? NaN));
+        if (this._hasAlpha) {
+          res.push(new Float32Array(width * height));
+        }
+        tile = { data: res, width, height };
+      }
+
+      this._setCachedTile(x, y, z, timeIndex, tile);
+      return {
+        ...tile,
+        window: [0, 0, 1, 1] as [number, number, number, number]
+      };
+    } catch (error) {
+      this.errorEvent.raiseEvent(error);
+      throw error;
+    }
+  }
+
+  private _loadTileData(x: number, y: number, z: number) {
+    if (this._mosaic) return this._loadMosaicTile(x, y, z);
+    if (this._pixelTransform) return this._loadWarpedTile(x, y, z);
+    return this._loadTile(x, y, z);
+  }
+
+  /**
+   * Persistent cache key of a tile, tiles of time steps are stored under the step index
+   */
+  private _getTileKey(x: number, y: number, z: number, timeIndex?: number) {
+    return timeIndex === undefined ? `${this._tileCacheKey}/${z}/${x}/${y}` : `${this._tileCacheKey}/${timeIndex}/${z}/${x}/${y}`;
+  }
+
+  private async _getCachedTile(x: number, y: number, z: number, timeIndex?: number): Promise<TileData> {
+    if (!this._tileCacheKey) return undefined;
+    return await this.options.persistentCache.get(this._getTileKey(x, y, z, timeIndex));
+  }
+
+  private _setCachedTile(x: number, y: number, z: number, timeIndex: number | undefined, tile: TileData) {
+    if (!this._tileCacheKey) return;
+    const write = this.options.persistentCache.set(this._getTileKey(x, y, z, timeIndex), tile);
+    this._cacheWrites = Promise.all([this._cacheWrites, write]);
+  }
+
+  /**
+   * Get the mesh warping a tile onto data in another grid, reprojected tiles are sampled in degrees and projected
+   * to the native CRS
+   * @returns undefined if the data is in the tile grid
+   */
+  private _getTileMesh(x: number, y: number, z: number, { width, height, bbox, pixelScaleOffset }: TileData): ReprojectionMesh | undefined {
+    const reprojected = this._proj?.project && this.tilingScheme instanceof TIFFImageryProviderTilingScheme;
+    if (!pixelScaleOffset && !((reprojected || this._sourceProj) && bbox)) return undefined;
+
+    let targetBBox = this._getTileNativeBBox(x, y, z);
+    let toNative: (pos: number[]) => number[];
+    if (this._sourceProj) {
+      targetBBox = this._getOutputTileBBox(x, y, z);
+      toNative = pos => this._outputToNative(pos);
+    } else if (reprojected) {
+      const rect = this.tilingScheme.tileXYToRectangle(x, y, z);
+      targetBBox = [rect.west, rect.south, rect.east, rect.north].map(CesiumMath.toDegrees) as BBox;
+      toNative = this._proj.project;
+    }
+    const toPixel = pixelScaleOffset ?
+      ([posX, posY]: number[]) => {
+        const [col, row] = this._pixelTransform.toPixel(posX, posY);
+        return [col * pixelScaleOffset[0] + pixelScaleOffset[1], row * pixelScaleOffset[2] + pixelScaleOffset[3]];
+      } :
+      ([posX, posY]: number[]) => [
+        (posX - bbox[0]) / (bbox[2] - bbox[0]) * width,
+        (bbox[3] - posY) / (bbox[3] - bbox[1]) * height,
+      ];
+    return createReprojectionMesh(targetBBox, toNative ? pos => toPixel(toNative(pos)) : toPixel);
+  }
+
+  /**
+   * Largest speed of the vector bands from the ranges of the components
+   */
+  private _getMaxSpeed() {
+    const { u, v } = this.renderOptions.vector;
+    const maxAbs = ({ min, max }: { min: number, max: number }) => Math.max(Math.abs(min), Math.abs(max));
+    return Math.hypot(maxAbs(this.bands[u]), maxAbs(this.bands[v]));
+  }
+
+  /**
+   * Sample the values of the read bands of a tile at a fractional position of the tile from the top left, with the
+   * same mapping from the tile to the data pixels as the plot
+   * @returns undefined if a value is nodata or outside of the data
+   */
+  private _createTileSampler(tile: TileData & { window: number[] }, mesh?: ReprojectionMesh) {
+    const { width, height, data, window } = tile;
+    const bands = this.readSamples.map((sample, index): VectorBand => ({
+      data: data[index],
+      ...this._scaleOffsets[sample],
+      nodata: this._noData[sample],
+    }));
+    const buffer = mesh ? 0 : this._buffer;
+    return (s: number, t: number) => {
+      const pos = mesh ? interpolateMesh(mesh, s, t) : [
+        (window[0] + s * (window[2] - window[0])) * (width - 2 * buffer) + buffer,
+        (window[1] + t * (window[3] - window[1])) * (height - 2 * buffer) + buffer,
+      ];
+      const values = bands.map(band => sampleBand(band, width, height, pos));
+      return values.every(val => val !== undefined) ? values : undefined;
+    };
+  }
+
+  /**
+   * Draw the vector symbols of a tile, the components are sampled at the source positions of the symbols
+   */
+  private _drawVectors(ctx: CanvasRenderingContext2D, x: number, y: number, z: number, tile: TileData & { window: number[] }, mesh?: ReprojectionMesh) {
+    const { symbol = 'arrow', spacing = 32, lineWidth = 1.5, knotsFactor = 1, color } = this.renderOptions.vector;
+    const sample = this._createTileSampler(tile, mesh);
+    const rect = this.tilingScheme.tileXYToRectangle(x, y, z);
+    drawVectors(ctx, this.tileWidth, this.tileHeight, (px, py) => sample(px / this.tileWidth, py / this.tileHeight), speed => {
+      // speeds are only looked up in named color scales and colors, not in color scale images
+      if (color || !this.plot.colorScaleCanvas) return color ?? 'black';
+      const [r, g, b, a] = this.plot.getColor(speed);
+      return a ? `rgba(${r}, ${g}, ${b}, ${a / 255})` : undefined;
+    }, {
+      symbol, spacing, lineWidth, knotsFactor,
+      maxSpeed: this.plot.domain[1],
+      southern: rect.north + rect.south < 0,
+    });
+  }
+
+  /**
+   * Ground size in metres of a rendered pixel of a tile along the columns and rows, at the tile center
+   */
+  private _getPixelSize(x: number, y: number, z: number) {
+    const rect = this.tilingScheme.tileXYToRectangle(x, y, z);
+    const radius = this.tilingScheme.ellipsoid.maximumRadius;
+    return [
+      rect.width * radius * Math.cos((rect.north + rect.south) / 2) / this.tileWidth,
+      rect.height * radius / this.tileHeight,
+    ];
+  }
+
   async requestImage(x: number, y: number, z: number) {
     if (!this.ready) {
       throw new DeveloperError(
@@ -675,19 +1744,25 @@ export class TIFFImageryProvider {
     }
     if (z < this.minimumLevel || z > this.maximumLevel) return undefined;
 
-    const cacheKey = `${x}_${y}_${z}`;
+    // the active time step may change while the tile loads
+    const { readSamples, _timeIndex: timeIndex } = this;
+    const cacheKey = timeIndex === undefined ? `${x}_${y}_${z}` : `${x}_${y}_${z}_${timeIndex}`;
     if (this._imagesCache.has(cacheKey)) {
       return this._imagesCache.get(cacheKey);
     }
 
     const { single, multi, convertToRGB } = this.renderOptions;
+    const band = single?.band;
 
     try {
-      const { width, height, data, window } = await this._loadTile(x, y, z);
+      const tile = await this._loadTileData(x, y, z);
+      const { width, height, data, window } = tile;
 
       if (this._destroyed || !width || !height) {
         return undefined;
       }
+      const mesh = this._getTileMesh(x, y, z, tile);
+      const alpha = this._hasAlpha ? data[readSamples.length] : undefined;
 
       let result: ImageData | HTMLImageElement | HTMLCanvasElement | OffscreenCanvas;
       let targetPlot: plot;
@@ -703,9 +1778,14 @@ export class TIFFImageryProvider {
 
           // Setup RGB rendering
           targetPlot.removeAllDataset();
-          this.readSamples.forEach((sample, index) => {
-            targetPlot.addDataset(`band${sample + 1}`, data[index], width, height);
+          readSamples.forEach((sample, index) => {
+            targetPlot.addDataset(`band${sample + 1}`, data[index], width, height, {
+              ...this._scaleOffsets[sample],
+              nodata: this._noData[sample],
+            });
           });
+          targetPlot.setAlpha(alpha, width, height);
+          targetPlot.setMesh(mesh);
 
           targetPlot.setRGBOptions({
             bands: multi ?? ['r', 'g', 'b'].reduce((pre, val, index) => ({
@@ -723,14 +1803,20 @@ export class TIFFImageryProvider {
 
           // Setup single band rendering
           targetPlot.removeAllDataset();
-          this.readSamples.forEach((sample, index) => {
-            targetPlot.addDataset(`b${sample + 1}`, data[index], width, height);
+          readSamples.forEach((sample, index) => {
+            targetPlot.addDataset(`b${sample + 1}`, data[index], width, height, {
+              ...this._scaleOffsets[sample],
+              nodata: this._noData[sample],
+            });
           });
+          targetPlot.setAlpha(alpha, width, height);
+          targetPlot.setMesh(mesh);
+          targetPlot.setPixelSize(this._getPixelSize(x, y, z));
 
           if (single.expression) {
             targetPlot.render(window);
           } else {
-            targetPlot.renderDataset(`b${single.band}`, window);
+            targetPlot.renderDataset(`b${band}`, window);
           }
         } else {
           return undefined;
@@ -743,7 +1829,12 @@ export class TIFFImageryProvider {
         targetPlot.render(window);
         const canv = createCanavas(this.tileWidth, this.tileHeight);
         const ctx = canv.getContext("2d") as CanvasRenderingContext2D;
-        ctx.drawImage(targetPlot.canvas, 0, 0);
+        if (!this.renderOptions.vector || this.renderOptions.vector.fill) {
+          ctx.drawImage(targetPlot.canvas, 0, 0);
+        }
+        if (this.renderOptions.vector) {
+          this._drawVectors(ctx, x, y, z, tile, mesh);
+        }
         result = canv;
 
         // Cache the result
@@ -767,32 +1858,108 @@ export class TIFFImageryProvider {
     }
   }
 
+  /**
+   * Load the decoded tiles of a level covering a rectangle to sample the values of the read bands at positions, like
+   * the vector components for ``TIFFParticleFlow``
+   * @param rectangle area to sample in radians
+   * @param level tiling scheme level, clamped to the levels of the provider
+   * @param maximumTiles largest number of tiles to load, the level is lowered until the rectangle fits
+   * @returns values of the read bands at a position in radians, undefined without data
+   */
+  async createTileSampler(rectangle: Rectangle, level: number, maximumTiles = 64): Promise<(longitude: number, latitude: number) => number[] | undefined> {
+    const area = Rectangle.intersection(rectangle, this.rectangle);
+    if (!area) return () => undefined;
+
+    let z = Math.min(Math.max(Math.round(level), this.minimumLevel), this.maximumLevel);
+    let northwest: Cartesian2, southeast: Cartesian2, columns: number, rows: number;
+    for (; ; z--) {
+      northwest = this.tilingScheme.positionToTileXY(Rectangle.northwest(area), z);
+      southeast = this.tilingScheme.positionToTileXY(Rectangle.southeast(area), z);
+      if (!northwest || !southeast) return () => undefined;
+      // the rectangle may cross the antimeridian
+      columns = (southeast.x - northwest.x + this.tilingScheme.getNumberOfXTilesAtLevel(z)) % this.tilingScheme.getNumberOfXTilesAtLevel(z) + 1;
+      rows = southeast.y - northwest.y + 1;
+      if (columns * rows <= maximumTiles || z <= this.minimumLevel) break;
+    }
+
+    const samplers = new Map<string, (s: number, t: number) => number[] | undefined>();
+    await Promise.all(new Array(columns * rows).fill(0).map(async (_, index) => {
+      const x = (northwest.x + index % columns) % this.tilingScheme.getNumberOfXTilesAtLevel(z);
+      const y = northwest.y + Math.floor(index / columns);
+      try {
+        const tile = await this._loadTileData(x, y, z);
+        if (!tile.width || !tile.height) return;
+        samplers.set(`${x}_${y}`, this._createTileSampler(tile, this._getTileMesh(x, y, z, tile)));
+      } catch (e) {
+        // tiles failing to load are left without data
+      }
+    }));
+
+    // the tiles are drawn linearly in degrees on geographic tiling schemes, otherwise in web mercator
+    const geographic = this.tilingScheme instanceof GeographicTilingScheme;
+    const toY = (latitude: number) => geographic ? latitude : WebMercatorProjection.geodeticLatitudeToMercatorAngle(latitude);
+    const position = new Cartographic();
+    return (longitude, latitude) => {
+      position.longitude = longitude;
+      position.latitude = latitude;
+      const xy = this.tilingScheme.positionToTileXY(position, z);
+      const sample = xy && samplers.get(`${xy.x}_${xy.y}`);
+      if (!sample) return undefined;
+      const rect = this.tilingScheme.tileXYToRectangle(xy.x, xy.y, z);
+      const s = CesiumMath.zeroToTwoPi(longitude - rect.west) / rect.width;
+      const t = (toY(rect.north) - toY(latitude)) / (toY(rect.north) - toY(rect.south));
+      return sample(CesiumMath.clamp(s, 0, 1), CesiumMath.clamp(t, 0, 1));
+    };
+  }
+
   async pickFeatures(x: number, y: number, zoom: number, longitude: number, latitude: number) {
     if (!this.options.enablePickFeatures) return undefined
 
-    const z = zoom > this.maximumLevel ? this.maximumLevel : zoom;
-    const index = this.requestLevels[z];
-    let image = this._images[index];
-    if (!image) {
-      image = this._images[index] = await this._source.getImage(index);
-    }
-    const width = image.getWidth();
-    const height = image.getHeight();
-    let posX: number, posY: number, window: number[];
-    const { west, south, north, width: lonWidth } = this.rectangle;
-    let lonGap = longitude - west;
-    // Handling cases across 180° longitude
-    if (longitude < west) {
-      lonGap += CesiumMath.TWO_PI;
-    }
+    let image: GeoTIFFImage, window: number[];
+    if (this._mosaic) {
+      const [posX, posY] = this._cartographicToNative(longitude, latitude);
+      // the last source is drawn on top
+      const item = [...this._mosaic].reverse().find(({ bbox }) =>
+        posX >= bbox[0] && posX <= bbox[2] && posY >= bbox[1] && posY <= bbox[3]
+      );
+      if (!item) return undefined;
+
+      image = item.images[0];
+      const width = image.getWidth();
+      const height = image.getHeight();
+      const [col, row] = bboxToWindow([posX, posY, posX, posY], item.bbox, width, height, item.reverseY);
+      window = [Math.min(col, width - 1), Math.min(row, height - 1), Math.min(col, width - 1) + 1, Math.min(row, height - 1) + 1];
+    } else if (this._pixelTransform) {
+      const [posX, posY] = this._cartographicToNative(longitude, latitude);
+      image = this._images[0];
+      const [col, row] = this._pixelTransform.toPixel(posX, posY).map(Math.floor);
+      if (col < 0 || row < 0 || col >= image.getWidth() || row >= image.getHeight()) return undefined;
+      window = [col, row, col + 1, row + 1];
+    } else {
+      const z = zoom > this.maximumLevel ? this.maximumLevel : zoom;
+      const index = this.requestLevels[z];
+      image = this._images[index];
+      if (!image) {
+        image = this._images[index] = await this._source.getImage(index);
+      }
+      const width = image.getWidth();
+      const height = image.getHeight();
+      let posX: number, posY: number;
+      const { west, south, north, width: lonWidth } = this.rectangle;
+      let lonGap = longitude - west;
+      // Handling cases across 180° longitude
+      if (longitude < west) {
+        lonGap += CesiumMath.TWO_PI;
+      }
 
-    posX = ~~(Math.abs(lonGap / lonWidth) * width);
-    posY = ~~(Math.abs((north - latitude) / (north - south)) * height);
-    window = [posX, posY, posX + 1, posY + 1];
+      posX = ~~(Math.abs(lonGap / lonWidth) * width);
+      posY = ~~(Math.abs((north - latitude) / (north - south)) * height);
+      window = [posX, posY, posX + 1, posY + 1];
 
-    if (this.reverseY) {
-      posY = height - posY;
-      window = [posX, posY - 1, posX + 1, posY]
+      if (this.reverseY) {
+        posY = height - posY;
+        window = [posX, posY - 1, posX + 1, posY]
+      }
     }
     const options = {
       window,
@@ -811,17 +1978,146 @@ export class TIFFImageryProvider {
     const featureInfo = new ImageryLayerFeatureInfo()
     featureInfo.name = `lon:${(longitude / Math.PI * 180).toFixed(6)}, lat:${(latitude / Math.PI * 180).toFixed(6)}`;
     const data = {};
+    const description = {};
     res?.forEach((item: any, index: number) => {
-      data[index] = item?.[0];
+      const value = item?.[0];
+      const { scale, offset, unit } = this._scaleOffsets[index] ?? { scale: 1, offset: 0 };
+      data[index] = value === undefined || isNoData(value, this._noData[index]) ? value : value * scale + offset;
+      description[index] = unit ? `${data[index]} ${unit}` : data[index];
     })
     featureInfo.data = data
     if (res) {
-      featureInfo.configureDescriptionFromProperties(data)
+      featureInfo.configureDescriptionFromProperties(description)
     }
     return [featureInfo];
   }
 
+  /**
+   * Render the time step active at a time in temporal mode, the layer reloads its tiles when the step changes
+   */
+  setTime(time: JulianDate) {
+    if (!this.times) {
+      throw new DeveloperError('Temporal mode is disabled, set the time option');
+    }
+    const index = this._getTimeIndex(time);
+    if (index === this._timeIndex) return;
+
+    this._timeIndex = index;
+    if (this._timeDimension === 'band') {
+      this.renderOptions.single.band = index + 1;
+      this.readSamples = [index];
+    } else {
+      this._images = this._pages[index].images;
+      this._masks = this._pages[index].masks;
+    }
+    this._reload?.();
+  }
+
+  /**
+   * Follow the current time of a clock in temporal mode, replaces the previously bound clock
+   * @param clock the clock to follow, unbinds the current clock if undefined
+   */
+  bindClock(clock?: Clock) {
+    this._removeClockListener?.();
+    this._removeClockListener = undefined;
+    if (clock) {
+      this.setTime(clock.currentTime);
+      this._removeClockListener = clock.onTick.addEventListener(() => this.setTime(clock.currentTime));
+    }
+  }
+
+  /**
+   * Get the last step starting at or before the time, times before the first step use the first step
+   */
+  private _getTimeIndex(time: JulianDate) {
+    let index = 0;
+    this.times.forEach((item, i) => {
+      if (JulianDate.lessThanOrEquals(item, time)) {
+        index = i;
+      }
+    });
+    return index;
+  }
+
+  /**
+   * Load the tile data covering an area of interest into the persistent cache, e.g. before going offline.
+   * In temporal mode the tiles of the active time step are loaded.
+   * @returns the number of tiles
+   */
+  async prewarmCache(rectangle: Rectangle, minimumLevel = this.minimumLevel, maximumLevel = this.maximumLevel) {
+    if (!this._tileCacheKey) {
+      throw new DeveloperError('Persistent cache is disabled, set persistentCache and make sure the files are served with an ETag or Last-Modified header');
+    }
+    // deeper levels reuse the tiles of the last COG level
+    const maxLevel = this._mosaic || this._pixelTransform ? maximumLevel : Math.min(maximumLevel, this.requestLevels.length - 1);
+    const tiles = this._getTilesInRectangle(rectangle, minimumLevel, maxLevel);
+    // load a few tiles at a time to stay within the browser connection limit
+    for (let i = 0; i < tiles.length; i += 6) {
+      await Promise.all(tiles.slice(i, i + 6).map(([x, y, z]) => this._loadTileData(x, y, z)));
+    }
+    await this._cacheWrites;
+    return tiles.length;
+  }
+
+  /**
+   * Clear the tiles of the provider from the memory cache and the persistent cache
+   * @param rectangle only clear the tiles intersecting the area, defaults to all tiles
+   */
+  async clearCache(rectangle?: Rectangle) {
+    const intersects = (x: number, y: number, z: number) =>
+      !rectangle || !!Rectangle.intersection(this.tilingScheme.tileXYToRectangle(x, y, z), rectangle);
+
+    [...this._imagesCache.keys()].forEach(key => {
+      const [x, y, z] = key.split('_').map(Number);
+      if (intersects(x, y, z)) {
+        this._imagesCache.delete(key);
+      }
+    });
+
+    if (this._tileCacheKey) {
+      const prefix = `${this._tileCacheKey}/`;
+      await this.options.persistentCache.delete(key => {
+        if (!key.startsWith(prefix)) return false;
+        const [z, x, y] = key.slice(prefix.length).split('/').slice(-3).map(Number);
+        return intersects(x, y, z);
+      });
+    }
+  }
+
+  private _getTilesInRectangle(rectangle: Rectangle, minimumLevel: number, maximumLevel: number) {
+    const tiles: [number, number, number][] = [];
+    // rectangles crossing the antimeridian are split, their intersection only keeps one side
+    const split = (item: Rectangle) => item.east < item.west ? [
+      new Rectangle(item.west, item.south, CesiumMath.PI, item.north),
+      new Rectangle(-CesiumMath.PI, item.south, item.east, item.north),
+    ] : [item];
+    const parts = split(rectangle)
+      .flatMap(part => split(this.rectangle).map(area => Rectangle.intersection(part, area)))
+      .filter(part => part);
+    const added = new Set<string>();
+    for (let z = minimumLevel; z <= maximumLevel; z++) {
+      parts.forEach(part => {
+        const northwest = this.tilingScheme.positionToTileXY(Rectangle.northwest(part), z);
+        const southeast = this.tilingScheme.positionToTileXY(Rectangle.southeast(part), z);
+        if (!northwest || !southeast) return;
+        for (let x = northwest.x; x <= southeast.x; x++) {
+          for (let y = northwest.y; y <= southeast.y; y++) {
+            // both parts share the tiles spanning the antimeridian at low levels
+            if (!added.has(`${x}/${y}/${z}`)) {
+              added.add(`${x}/${y}/${z}`);
+              tiles.push([x, y, z]);
+            }
+          }
+        }
+      });
+    }
+    return tiles;
+  }
+
   destroy() {
+    this._removeClockListener?.();
+    this._removeClockListener = undefined;
+
     // 清理图像缓存
     if (this._imagesCache) {
       for (const key in this._imagesCache) {
@@ -842,6 +2138,7 @@ export class TIFFImageryProvider {
     this.plot?.destroy();
     this._images = [];
     this._masks = [];
+    this._mosaic = undefined;
     this._source = undefined;
     this._destroyed = true;
     this._rgbPlot?.destroy();
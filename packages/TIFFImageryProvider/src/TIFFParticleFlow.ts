@@ -0,0 +1,242 @@
+import { BoundingSphere, Cartesian3, DeveloperError, Math as CesiumMath, Rectangle, Scene, SceneMode, SceneTransforms } from "cesium";
+import { TIFFImageryProvider } from "./TIFFImageryProvider";
+import { addColorScale, renderColorScaleToCanvas } from "./plotty";
+import { ColorScaleNames } from "./plotty/typing";
+import { generateColorScale } from "./helpers/utils";
+
+export interface TIFFParticleFlowOptions {
+  /** number of particles, defaults to 3000 */
+  particleCount?: number;
+  /** screen pixels a particle moves each frame for a speed of 1, defaults to 0.1 */
+  speedFactor?: number;
+  /** opacity the trails keep each frame, lower values give shorter trails, defaults to 0.96 */
+  fade?: number;
+  /** frames before a particle starts again at a random position, defaults to 100 */
+  maxAge?: number;
+  /** width of the trails in pixels, defaults to 1.5 */
+  lineWidth?: number;
+  /** color scale of the speed, defaults to viridis */
+  colorScale?: ColorScaleNames;
+  /** colors of the speed like the ``colors`` of single band rendering, used instead of ``colorScale`` */
+  colors?: [number, string][] | string[];
+  /** speed range of the colors, defaults to the domain of the provider */
+  domain?: [number, number];
+}
+
+interface Particle {
+  longitude: number;
+  latitude: number;
+  age: number;
+  /** window position of the previous frame */
+  x?: number;
+  y?: number;
+}
+
+/** number of color groups the trails are stroked in */
+const COLOR_STEPS = 16;
+
+/**
+ * Animated particles following the vectors of a provider with ``vector`` render options, drawn on a canvas over the
+ * scene. The decoded tiles of the view are sampled again after each camera move, call ``refresh`` when the data changes,
+ * e.g. after a new time step.
+ */
+export class TIFFParticleFlow {
+  readonly canvas: HTMLCanvasElement;
+  show = true;
+  private _options: Required<Omit<TIFFParticleFlowOptions, 'colorScale' | 'colors' | 'domain'>>;
+  private _domain: [number, number];
+  private _colors: string[];
+  private _particles: Particle[] = [];
+  private _rectangle?: Rectangle;
+  private _sample?: (longitude: number, latitude: number) => number[] | undefined;
+  /** ground size in metres of a screen pixel at the center of the view */
+  private _pixelSize = 1;
+  private _loadId = 0;
+  private _removeListeners: (() => void)[];
+  private _destroyed = false;
+
+  constructor(readonly scene: Scene, readonly provider: TIFFImageryProvider, options: TIFFParticleFlowOptions = {}) {
+    if (!provider.renderOptions.vector) {
+      throw new DeveloperError('The particle flow requires a provider with vector render options');
+    }
+    const { particleCount = 3000, speedFactor = 0.1, fade = 0.96, maxAge = 100, lineWidth = 1.5, colorScale = 'viridis', colors } = options;
+    this._options = { particleCount, speedFactor, fade, maxAge, lineWidth };
+    this._domain = options.domain ?? (provider.plot?.domain as [number, number]) ?? [0, 1];
+    this._colors = this._getColors(colors ?? colorScale);
+
+    this.canvas = document.createElement('canvas');
+    Object.assign(this.canvas.style, { position: 'absolute', top: '0', left: '0', pointerEvents: 'none' });
+    scene.canvas.parentElement.appendChild(this.canvas);
+
+    const { camera } = scene;
+    this._removeListeners = [
+      scene.postRender.addEventListener(() => this._render()),
+      // the trails do not follow the camera, they are drawn again once it stops
+      camera.moveStart.addEventListener(() => {
+        this._loadId++;
+        this._sample = undefined;
+        this.canvas.getContext('2d').clearRect(0, 0, this.canvas.width, this.canvas.height);
+      }),
+      camera.moveEnd.addEventListener(() => this.refresh()),
+    ];
+    this.refresh();
+  }
+
+  /**
+   * Sample the tiles of the current view again and restart the particles
+   */
+  async refresh() {
+    const id = ++this._loadId;
+    const { scene, provider } = this;
+    const rectangle = scene.camera.computeViewRectangle(scene.globe.ellipsoid) ?? provider.rectangle;
+    this._resize();
+    let sample: (longitude: number, latitude: number) => number[] | undefined;
+    try {
+      sample = await provider.createTileSampler(rectangle, this._getLevel(rectangle));
+    } catch (e) {
+      // failures of views that were left already are ignored
+      if (id === this._loadId && !this._destroyed) {
+        console.warn('Failed to load the tiles of the particle flow', e);
+      }
+      return;
+    }
+    // a newer view is loading
+    if (id !== this._loadId || this._destroyed) return;
+
+    const center = Rectangle.center(rectangle);
+    const sphere = new BoundingSphere(Cartesian3.fromRadians(center.longitude, center.latitude), 0);
+    this._pixelSize = scene.camera.getPixelSize(sphere, scene.canvas.clientWidth, scene.canvas.clientHeight);
+    this._rectangle = rectangle;
+    this._sample = sample;
+    this._particles = new Array(this._options.particleCount).fill(0).map(() => this._createParticle());
+    this.canvas.getContext('2d').clearRect(0, 0, this.canvas.width, this.canvas.height);
+  }
+
+  destroy() {
+    this._destroyed = true;
+    this._removeListeners.forEach(remove => remove());
+    this._removeListeners = [];
+    this.canvas.remove();
+  }
+
+  /**
+   * Css colors of the speed steps from a color scale name or color stops
+   */
+  private _getColors(colorScale: ColorScaleNames | [number, string][] | string[]) {
+    let name = colorScale as string;
+    if (Array.isArray(colorScale)) {
+      const { colors, positions } = generateColorScale(colorScale, this._domain);
+      name = 'particleFlow';
+      addColorScale(name, colors, positions);
+    }
+    const scaleCanvas = document.createElement('canvas');
+    renderColorScaleToCanvas(name, { canvas: scaleCanvas });
+    const data = scaleCanvas.getContext('2d').getImageData(0, 0, scaleCanvas.width, 1).data;
+    return new Array(COLOR_STEPS).fill(0).map((_, i) => {
+      const index = Math.floor((i + 0.5) / COLOR_STEPS * scaleCanvas.width) * 4;
+      return `rgba(${data[index]}, ${data[index + 1]}, ${data[index + 2]}, ${data[index + 3] / 255})`;
+    });
+  }
+
+  /**
+   * Level of the tiles matching the screen resolution of the view
+   */
+  private _getLevel(rectangle: Rectangle) {
+    const { tilingScheme, tileWidth } = this.provider;
+    const levelZeroWidth = tilingScheme.rectangle.width / tilingScheme.getNumberOfXTilesAtLevel(0);
+    return Math.log2(levelZeroWidth * this.canvas.width / tileWidth / rectangle.width);
+  }
+
+  private _resize() {
+    const { clientWidth, clientHeight } = this.scene.canvas;
+    if (this.canvas.width === clientWidth && this.canvas.height === clientHeight) return false;
+    this.canvas.width = clientWidth;
+    this.canvas.height = clientHeight;
+    return true;
+  }
+
+  private _createParticle(): Particle {
+    const rectangle = this._rectangle;
+    return {
+      longitude: CesiumMath.negativePiToPi(rectangle.west + Math.random() * rectangle.width),
+      latitude: rectangle.south + Math.random() * rectangle.height,
+      // particles start at different ages to spread their restarts over the frames
+      age: Math.floor(Math.random() * this._options.maxAge),
+    };
+  }
+
+  /**
+   * Fade the trails and advance every particle by one frame
+   */
+  private _render() {
+    const { canvas, scene } = this;
+    const ctx = canvas.getContext('2d');
+    if (this._resize()) {
+      this._particles.forEach(particle => particle.x = particle.y = undefined);
+    }
+    if (!this.show || !this._sample) {
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      return;
+    }
+
+    const { speedFactor, fade, maxAge, lineWidth } = this._options;
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.fillStyle = `rgba(0, 0, 0, ${fade})`;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.globalCompositeOperation = 'source-over';
+
+    const ellipsoid = scene.globe.ellipsoid;
+    const radius = ellipsoid.maximumRadius;
+    const globe3D = scene.mode === SceneMode.SCENE3D;
+    const distance = speedFactor * this._pixelSize;
+    const [min, max] = this._domain;
+    const segments: number[][] = new Array(COLOR_STEPS).fill(0).map(() => []);
+    const position = new Cartesian3();
+    const normal = new Cartesian3();
+    const toCamera = new Cartesian3();
+
+    this._particles.forEach((particle, index) => {
+      const values = particle.age < maxAge ? this._sample(particle.longitude, particle.latitude) : undefined;
+      if (!values) {
+        this._particles[index] = this._createParticle();
+        this._particles[index].age = 0;
+        return;
+      }
+      const [u, v] = values;
+      particle.age++;
+      particle.latitude = CesiumMath.clamp(particle.latitude + v * distance / radius, -CesiumMath.PI_OVER_TWO, CesiumMath.PI_OVER_TWO);
+      particle.longitude = CesiumMath.negativePiToPi(particle.longitude + u * distance / (radius * Math.max(Math.cos(particle.latitude), 0.01)));
+
+      Cartesian3.fromRadians(particle.longitude, particle.latitude, 0, ellipsoid, position);
+      // positions facing away from the camera are on the far side of the globe
+      const hidden = globe3D && Cartesian3.dot(
+        ellipsoid.geodeticSurfaceNormal(position, normal),
+        Cartesian3.subtract(scene.camera.positionWC, position, toCamera)
+      ) <= 0;
+      const windowPosition = hidden ? undefined : SceneTransforms.worldToWindowCoordinates(scene, position);
+      if (windowPosition && particle.x !== undefined) {
+        const step = Math.floor(CesiumMath.clamp((Math.hypot(u, v) - min) / (max - min), 0, 1) * (COLOR_STEPS - 1));
+        segments[step].push(particle.x, particle.y, windowPosition.x, windowPosition.y);
+      }
+      particle.x = windowPosition?.x;
+      particle.y = windowPosition?.y;
+    });
+
+    ctx.lineWidth = lineWidth;
+    segments.forEach((lines, step) => {
+      if (!lines.length) return;
+      ctx.strokeStyle = this._colors[step];
+      ctx.beginPath();
+      for (let i = 0; i < lines.length; i += 4) {
+        ctx.moveTo(lines[i], lines[i + 1]);
+        ctx.lineTo(lines[i + 2], lines[i + 3]);
+      }
+      ctx.stroke();
+    });
+
+    // keep animating when frames are only rendered on changes
+    if (scene.requestRenderMode) {
+      scene.requestRender();
+    }
+  }
+}
@@ -0,0 +1,133 @@
+import { GeoTIFFImage } from "geotiff";
+import { BBox } from "./reprojection";
+
+/**
+ * GDAL style affine transform from pixel to native CRS coordinates:
+ * x = gt[0] + col * gt[1] + row * gt[2], y = gt[3] + col * gt[4] + row * gt[5]
+ */
+export type GeoTransform = [number, number, number, number, number, number];
+
+/**
+ * Get the affine transform of an image from ``ModelTransformation``, or from ``ModelTiepoint`` and ``ModelPixelScale``.
+ * PixelIsPoint rasters georeference the pixel centers, they are shifted by half a pixel to the pixel corner like GDAL does.
+ * @returns undefined if the image is not georeferenced
+ */
+export function getGeoTransform(image: GeoTIFFImage): GeoTransform | undefined {
+  const { ModelTransformation, ModelTiepoint, ModelPixelScale } = image.fileDirectory;
+  let gt: GeoTransform;
+  if (ModelTransformation) {
+    const [a, b, , d, e, f, , h] = ModelTransformation;
+    gt = [d, a, b, h, e, f];
+  } else if (ModelTiepoint?.length >= 6 && ModelPixelScale) {
+    const [i, j, , x, y] = ModelTiepoint;
+    const [scaleX, scaleY] = ModelPixelScale;
+    gt = [x - i * scaleX, scaleX, 0, y + j * scaleY, 0, -scaleY];
+  } else {
+    return undefined;
+  }
+  if (image.geoKeys?.GTRasterTypeGeoKey === 2) {
+    gt[0] -= (gt[1] + gt[2]) / 2;
+    gt[3] -= (gt[4] + gt[5]) / 2;
+  }
+  return gt;
+}
+
+/**
+ * Whether the transform has rotation or shear terms
+ */
+export function isRotated(gt: GeoTransform) {
+  return gt[2] !== 0 || gt[4] !== 0;
+}
+
+export function applyGeoTransform(gt: GeoTransform, col: number, row: number) {
+  return [gt[0] + col * gt[1] + row * gt[2], gt[3] + col * gt[4] + row * gt[5]];
+}
+
+/**
+ * Invert a transform, the result converts native CRS coordinates to fractional pixel coordinates
+ */
+export function invertGeoTransform(gt: GeoTransform): GeoTransform {
+  const det = gt[1] * gt[5] - gt[2] * gt[4];
+  if (!det) {
+    throw new Error('The affine transform is not invertible');
+  }
+  const a = gt[5] / det, b = -gt[2] / det, c = -gt[4] / det, d = gt[1] / det;
+  return [-(a * gt[0] + b * gt[3]), a, b, -(c * gt[0] + d * gt[3]), c, d];
+}
+
+/**
+ * Conversion between full resolution pixel positions and native CRS positions of images that are not axis aligned
+ */
+export interface PixelTransform {
+  toNative(col: number, row: number): number[];
+  toPixel(x: number, y: number): number[];
+}
+
+export function createAffineTransform(gt: GeoTransform): PixelTransform {
+  const inverse = invertGeoTransform(gt);
+  return {
+    toNative: (col, row) => applyGeoTransform(gt, col, row),
+    toPixel: (x, y) => applyGeoTransform(inverse, x, y),
+  };
+}
+
+/**
+ * Positions along the edges of a bounding box, non-linear transforms may bulge between the corners
+ */
+function getEdgePoints([minX, minY, maxX, maxY]: BBox, steps = 8) {
+  const points: number[][] = [];
+  for (let i = 0; i <= steps; i++) {
+    const x = minX + (maxX - minX) * i / steps;
+    const y = minY + (maxY - minY) * i / steps;
+    points.push([x, minY], [x, maxY], [minX, y], [maxX, y]);
+  }
+  return points;
+}
+
+function pointsToBBox(points: number[][]): BBox {
+  const xs = points.map(pos => pos[0]);
+  const ys = points.map(pos => pos[1]);
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+}
+
+/**
+ * Bounding box of a bounding box converted by a non-linear transform, positions outside of its domain are skipped
+ */
+export function transformBBox(bbox: BBox, transform: (pos: number[]) => number[]): BBox {
+  return pointsToBBox(getEdgePoints(bbox).map(transform).filter(pos => pos.every(Number.isFinite)));
+}
+
+/**
+ * Pixel size along the columns and rows at the image center, in native CRS units
+ */
+export function getPixelSize(transform: PixelTransform, width: number, height: number) {
+  const center = transform.toNative(width / 2, height / 2);
+  const right = transform.toNative(width / 2 + 1, height / 2);
+  const below = transform.toNative(width / 2, height / 2 + 1);
+  return [
+    Math.hypot(right[0] - center[0], right[1] - center[1]),
+    Math.hypot(below[0] - center[0], below[1] - center[1]),
+  ];
+}
+
+/**
+ * Bounding box of the image footprint in the native CRS
+ */
+export function getFootprintBBox(transform: PixelTransform, width: number, height: number): BBox {
+  return pointsToBBox(getEdgePoints([0, 0, width, height]).map(([col, row]) => transform.toNative(col, row)));
+}
+
+/**
+ * Pixel window of an image covering a native CRS bounding box, clamped to the image
+ * @param scaleX size ratio of the full resolution image to the image along the columns, overviews are larger than 1
+ * @param scaleY size ratio along the rows
+ */
+export function bboxToPixelWindow(transform: PixelTransform, bbox: BBox, width: number, height: number, scaleX = 1, scaleY = 1) {
+  const [minCol, minRow, maxCol, maxRow] = pointsToBBox(getEdgePoints(bbox).map(([x, y]) => transform.toPixel(x, y)));
+  return [
+    Math.max(0, Math.floor(minCol / scaleX)),
+    Math.max(0, Math.floor(minRow / scaleY)),
+    Math.min(width, Math.ceil(maxCol / scaleX)),
+    Math.min(height, Math.ceil(maxRow / scaleY)),
+  ];
+}
@@ -0,0 +1,317 @@
+import { FetchFunction } from "./request";
+
+export type CacheEntryInfo = {
+  key: string;
+  /** approximate size in bytes */
+  size: number;
+  /** last access time in milliseconds */
+  accessed: number;
+}
+
+/**
+ * Storage backend of the persistent cache, values are typed arrays and plain objects
+ */
+export interface CacheStore {
+  /** get a value and update its access time */
+  get(key: string): Promise<any>;
+  set(key: string, value: any, size: number): Promise<void>;
+  delete(keys: string[]): Promise<void>;
+  /** size and access time of every entry, used for eviction */
+  entries(): Promise<CacheEntryInfo[]>;
+  clear(): Promise<void>;
+}
+
+const VALUES = 'values';
+const ENTRIES = 'entries';
+
+function requestToPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionToPromise(transaction: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Cache store in an IndexedDB database, values and entry infos are kept in separate object stores
+ * so eviction does not read the values
+ */
+export class IndexedDBCacheStore implements CacheStore {
+  private _db?: Promise<IDBDatabase>;
+
+  constructor(readonly name = 'tiff-imagery-provider') { }
+
+  private _open() {
+    if (!this._db) {
+      const request = indexedDB.open(this.name, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(VALUES);
+        request.result.createObjectStore(ENTRIES, { keyPath: 'key' });
+      };
+      this._db = requestToPromise(request);
+    }
+    return this._db;
+  }
+
+  async get(key: string) {
+    const transaction = (await this._open()).transaction([VALUES, ENTRIES], 'readwrite');
+    const valueRequest = transaction.objectStore(VALUES).get(key);
+    const entries = transaction.objectStore(ENTRIES);
+    const entryRequest = entries.get(key);
+    entryRequest.onsuccess = () => {
+      if (entryRequest.result) {
+        entries.put({ ...entryRequest.result, accessed: Date.now() });
+      }
+    };
+    await transactionToPromise(transaction);
+    return valueRequest.result;
+  }
+
+  async set(key: string, value: any, size: number) {
+    const transaction = (await this._open()).transaction([VALUES, ENTRIES], 'readwrite');
+    transaction.objectStore(VALUES).put(value, key);
+    transaction.objectStore(ENTRIES).put({ key, size, accessed: Date.now() });
+    await transactionToPromise(transaction);
+  }
+
+  async delete(keys: string[]) {
+    const transaction = (await this._open()).transaction([VALUES, ENTRIES], 'readwrite');
+    keys.forEach(key => {
+      transaction.objectStore(VALUES).delete(key);
+      transaction.objectStore(ENTRIES).delete(key);
+    });
+    await transactionToPromise(transaction);
+  }
+
+  async entries() {
+    const transaction = (await this._open()).transaction(ENTRIES, 'readonly');
+    return await requestToPromise(transaction.objectStore(ENTRIES).getAll()) as CacheEntryInfo[];
+  }
+
+  async clear() {
+    const transaction = (await this._open()).transaction([VALUES, ENTRIES], 'readwrite');
+    transaction.objectStore(VALUES).clear();
+    transaction.objectStore(ENTRIES).clear();
+    await transactionToPromise(transaction);
+  }
+}
+
+/**
+ * Cache store in memory, used where IndexedDB is not available
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly _entries = new Map<string, { value: any; info: CacheEntryInfo }>();
+
+  async get(key: string) {
+    const entry = this._entries.get(key);
+    if (entry) {
+      entry.info.accessed = Date.now();
+    }
+    return entry?.value;
+  }
+
+  async set(key: string, value: any, size: number) {
+    this._entries.set(key, { value, info: { key, size, accessed: Date.now() } });
+  }
+
+  async delete(keys: string[]) {
+    keys.forEach(key => this._entries.delete(key));
+  }
+
+  async entries() {
+    return [...this._entries.values()].map(({ info }) => ({ ...info }));
+  }
+
+  async clear() {
+    this._entries.clear();
+  }
+}
+
+/**
+ * Approximate the size of a value in bytes
+ */
+export function getByteSize(value: any): number {
+  if (value === null || value === undefined) return 0;
+  if (ArrayBuffer.isView(value)) return value.byteLength;
+  if (value instanceof ArrayBuffer) return value.byteLength;
+  if (typeof value === 'string') return value.length * 2;
+  if (typeof value !== 'object') return 8;
+  return Object.keys(value).reduce((pre, key) => pre + key.length * 2 + getByteSize(value[key]), 0);
+}
+
+/**
+ * 53 bit string hash, used to shorten cache keys composed of many urls
+ */
+export function hashString(str: string) {
+  let h1 = 0xdeadbeef, h2 = 0x41c6ce57;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+export interface PersistentCacheOptions {
+  /** defaults to an IndexedDB store in browsers, an in-memory store elsewhere */
+  store?: CacheStore;
+  /** maximum size in bytes, least recently used entries are evicted beyond it, defaults to 512MB */
+  maxSize?: number;
+}
+
+/**
+ * Cache of decoded tile data and TIFF headers persisted across page reloads, can be shared by several providers
+ */
+export class PersistentCache {
+  readonly store: CacheStore;
+  readonly maxSize: number;
+  private _size?: Promise<number>;
+
+  constructor(options: PersistentCacheOptions = {}) {
+    this.store = options.store ?? (typeof indexedDB !== 'undefined' ? new IndexedDBCacheStore() : new MemoryCacheStore());
+    this.maxSize = options.maxSize ?? 512 * 1024 * 1024;
+  }
+
+  async get(key: string) {
+    try {
+      return await this.store.get(key);
+    } catch (e) {
+      console.warn('Failed to read the persistent cache', e);
+      return undefined;
+    }
+  }
+
+  async set(key: string, value: any) {
+    const size = getByteSize(value);
+    if (size > this.maxSize) return;
+    try {
+      await this._getSize();
+      await this.store.set(key, value, size);
+      // a cleared size is reloaded from the store with the new entry
+      this._size = this._size?.then(total => total + size);
+      if (await this._getSize() > this.maxSize) {
+        await this._evict();
+      }
+    } catch (e) {
+      console.warn('Failed to write the persistent cache', e);
+    }
+  }
+
+  /**
+   * Delete the entries whose key matches the filter
+   */
+  async delete(filter: (key: string) => boolean) {
+    const keys = (await this.store.entries()).map(({ key }) => key).filter(filter);
+    await this.store.delete(keys);
+    this._size = undefined;
+  }
+
+  async clear() {
+    await this.store.clear();
+    this._size = Promise.resolve(0);
+  }
+
+  private _getSize() {
+    if (!this._size) {
+      this._size = this.store.entries().then(entries => entries.reduce((pre, entry) => pre + entry.size, 0));
+    }
+    return this._size;
+  }
+
+  /**
+   * Delete least recently used entries until the cache shrinks to 90% of the maximum size,
+   * so eviction does not run on every write
+   */
+  private async _evict() {
+    const entries = (await this.store.entries()).sort((a, b) => a.accessed - b.accessed);
+    let total = entries.reduce((pre, entry) => pre + entry.size, 0);
+    const keys: string[] = [];
+    for (const entry of entries) {
+      if (total <= this.maxSize * 0.9) break;
+      keys.push(entry.key);
+      total -= entry.size;
+    }
+    await this.store.delete(keys);
+    this._size = Promise.resolve(total);
+  }
+}
+
+/**
+ * Wrap a fetch function to record the ETag or Last-Modified header of the first successful response,
+ * the validator identifies the file version in cache keys
+ */
+export function trackValidator(fetchFn: FetchFunction) {
+  const tracker: { validator?: string; fetch: FetchFunction } = {
+    fetch: async (url, init) => {
+      const response = await fetchFn(url, init);
+      if (tracker.validator === undefined && response.ok) {
+        tracker.validator = response.headers.get('ETag') ?? response.headers.get('Last-Modified') ?? '';
+      }
+      return response;
+    }
+  };
+  return tracker;
+}
+
+type CachedResponse = {
+  status: number;
+  headers: Record<string, string>;
+  data: ArrayBuffer;
+}
+
+/**
+ * Wrap the fetch of a file to serve the range requests reading its header from the cache. Once the first response
+ * gives the validator of the file version, range requests are answered with the responses recorded for it, until
+ * ``finish`` stores the new responses and stops recording before tile data is read.
+ */
+export function cacheHeaderResponses(cache: PersistentCache, href: string, tracker: ReturnType<typeof trackValidator>) {
+  const recorded: Record<string, CachedResponse> = {};
+  let cached: Promise<Record<string, CachedResponse> | undefined>;
+  let recording = true;
+  const getCached = () => {
+    cached ??= cache.get(`headers:${href}@${tracker.validator}`);
+    return cached;
+  };
+
+  const fetch: FetchFunction = async (url, init) => {
+    const range = new Headers(init?.headers).get('Range');
+    if (!recording || !range) {
+      return tracker.fetch(url, init);
+    }
+    const hit = tracker.validator ? (await getCached())?.[range] : undefined;
+    if (hit) {
+      return new Response(hit.data, { status: hit.status, headers: hit.headers });
+    }
+    const response = await tracker.fetch(url, init);
+    if (response.ok) {
+      const headers: Record<string, string> = {};
+      ['Content-Type', 'Content-Range'].forEach(name => {
+        const value = response.headers.get(name);
+        if (value !== null) headers[name] = value;
+      });
+      recorded[range] = { status: response.status, headers, data: await response.clone().arrayBuffer() };
+    }
+    return response;
+  };
+
+  const finish = async () => {
+    recording = false;
+    if (!tracker.validator) return;
+    const responses = await getCached();
+    // the first request is sent before the validator is known, it is recorded again on every load
+    if (Object.keys(recorded).some(range => !responses?.[range])) {
+      await cache.set(`headers:${href}@${tracker.validator}`, { ...responses, ...recorded });
+    }
+  };
+
+  return { fetch, finish };
+}
@@ -0,0 +1,372 @@
+import { DatumShift } from "./datum";
+import { Projection, ProjectionMethod, equirectangular, lambertConformalConic, mercator, polarStereographic, transverseMercator } from "./projections";
+
+/**
+ * Projected CRS described by a projection method and its parameters, angles are in degrees and
+ * false easting / northing in the linear unit of the CRS
+ */
+export interface CRSDefinition {
+  /** name of a registered projection method, e.g. ``mercator`` */
+  method: string;
+  /** semi-major axis of the ellipsoid in metres, defaults to WGS84 */
+  semiMajorAxis?: number;
+  /** inverse flattening of the ellipsoid, 0 for a sphere, defaults to WGS84 */
+  inverseFlattening?: number;
+  /** longitude of the prime meridian east of Greenwich, defaults to 0 */
+  primeMeridian?: number;
+  centralMeridian?: number;
+  latitudeOfOrigin?: number;
+  standardParallel1?: number;
+  standardParallel2?: number;
+  /** scale factor at the natural origin, defaults to 1 */
+  scaleFactor?: number;
+  falseEasting?: number;
+  falseNorthing?: number;
+  /** metres per linear unit, defaults to 1 */
+  unitSize?: number;
+}
+
+/** projection method names of the GeoTIFF ``ProjCoordTransGeoKey`` codes */
+const coordTransMethods: Record<number, string> = {
+  1: 'transverseMercator',
+  3: 'obliqueMercator',
+  7: 'mercator',
+  8: 'lambertConformalConic',
+  9: 'lambertConformalConic',
+  10: 'lambertAzimuthalEqualArea',
+  11: 'albersEqualArea',
+  12: 'azimuthalEquidistant',
+  13: 'equidistantConic',
+  14: 'stereographic',
+  15: 'polarStereographic',
+  16: 'obliqueStereographic',
+  17: 'equirectangular',
+  18: 'cassiniSoldner',
+  19: 'gnomonic',
+  20: 'millerCylindrical',
+  21: 'orthographic',
+  22: 'polyconic',
+  23: 'robinson',
+  24: 'sinusoidal',
+  25: 'vanDerGrinten',
+  26: 'newZealandMapGrid',
+  27: 'transverseMercatorSouthOriented',
+};
+
+/** semi-major axis and inverse flattening of EPSG ellipsoids */
+const ellipsoids: Record<number, [number, number]> = {
+  1024: [6378137, 298.257222101], // CGCS2000
+  7001: [6377563.396, 299.3249646], // Airy 1830
+  7004: [6377397.155, 299.1528128], // Bessel 1841
+  7008: [6378206.4, 294.9786982], // Clarke 1866
+  7012: [6378249.145, 293.465], // Clarke 1880 (RGS)
+  7019: [6378137, 298.257222101], // GRS 1980
+  7022: [6378388, 297], // International 1924
+  7024: [6378245, 298.3], // Krassowsky 1940
+  7030: [6378137, 298.257223563], // WGS 84
+  7035: [6371007, 0], // Sphere
+  7043: [6378135, 298.26], // WGS 72
+  7049: [6378140, 298.257], // IAG 1975
+};
+
+/** ellipsoids of EPSG geodetic datums */
+const datumEllipsoids: Record<number, number> = {
+  6171: 7019, // RGF93
+  6214: 7024, // Beijing 1954
+  6230: 7022, // ED50
+  6258: 7019, // ETRS89
+  6267: 7008, // NAD27
+  6269: 7019, // NAD83
+  6277: 7001, // OSGB36
+  6283: 7019, // GDA94
+  6284: 7024, // Pulkovo 1942
+  6314: 7004, // DHDN
+  6322: 7043, // WGS 72
+  6326: 7030, // WGS 84
+  6490: 1024, // CGCS2000
+  6610: 7049, // Xian 1980
+  6612: 7019, // JGD2000
+  6619: 7019, // SWEREF99
+};
+
+/** longitudes of EPSG prime meridians in degrees */
+const primeMeridians: Record<number, number> = {
+  8901: 0, // Greenwich
+  8903: 2.33722917, // Paris
+  8904: -74.08091667, // Bogota
+  8905: -3.687938889, // Madrid
+  8906: 12.45233333, // Rome
+  8908: 106.8077194, // Jakarta
+  8910: 4.367975, // Brussels
+  8913: 10.72291667, // Oslo
+};
+
+/** metres per EPSG linear unit */
+const linearUnits: Record<number, number> = {
+  9001: 1, // metre
+  9002: 0.3048, // foot
+  9003: 1200 / 3937, // US survey foot
+  9005: 0.3047972654, // Clarke's foot
+  9014: 1.8288, // fathom
+  9030: 1852, // nautical mile
+  9036: 1000, // kilometre
+};
+
+/** degrees per EPSG angular unit */
+const angularUnits: Record<number, number> = {
+  9101: 180 / Math.PI, // radian
+  9102: 1, // degree
+  9105: 0.9, // grad
+  9122: 1, // degree (supplier to define representation)
+};
+
+const methods = new Map<string, ProjectionMethod>([
+  ['mercator', mercator],
+  ['equirectangular', equirectangular],
+  ['transverseMercator', transverseMercator],
+  ['polarStereographic', polarStereographic],
+  ['lambertConformalConic', lambertConformalConic],
+]);
+
+const GRS80 = 298.257222101;
+const HUGHES_1980 = { semiMajorAxis: 6378273, inverseFlattening: 298.279411123064 };
+
+function utmZone(zone: number, south = false, inverseFlattening?: number): CRSDefinition {
+  return {
+    method: 'transverseMercator',
+    inverseFlattening,
+    centralMeridian: zone * 6 - 183,
+    scaleFactor: 0.9996,
+    falseEasting: 500000,
+    falseNorthing: south ? 10000000 : 0,
+  };
+}
+
+function gaussKruger(centralMeridian: number, falseEasting: number): CRSDefinition {
+  return { method: 'transverseMercator', inverseFlattening: GRS80, centralMeridian, falseEasting };
+}
+
+function lambertZone(lat0: number, lon0: number, lat1: number, lat2: number, x0: number, y0: number, inverseFlattening = GRS80): CRSDefinition {
+  return {
+    method: 'lambertConformalConic',
+    inverseFlattening,
+    latitudeOfOrigin: lat0,
+    centralMeridian: lon0,
+    standardParallel1: lat1,
+    standardParallel2: lat2,
+    falseEasting: x0,
+    falseNorthing: y0,
+  };
+}
+
+const registry = new Map<number, CRSDefinition | Projection>([
+  [3395, { method: 'mercator' }], // WGS 84 / World Mercator
+  [4087, { method: 'equirectangular' }], // WGS 84 / World Equidistant Cylindrical
+  [32662, { method: 'equirectangular' }], // WGS 84 / Plate Carree
+
+  // polar stereographic
+  [3031, { method: 'polarStereographic', standardParallel1: -71 }], // WGS 84 / Antarctic Polar Stereographic
+  [3411, { method: 'polarStereographic', ...HUGHES_1980, centralMeridian: -45, standardParallel1: 70 }], // NSIDC Sea Ice Polar Stereographic North
+  [3412, { method: 'polarStereographic', ...HUGHES_1980, standardParallel1: -70 }], // NSIDC Sea Ice Polar Stereographic South
+  [3413, { method: 'polarStereographic', centralMeridian: -45, standardParallel1: 70 }], // WGS 84 / NSIDC Sea Ice Polar Stereographic North
+  [3976, { method: 'polarStereographic', standardParallel1: -70 }], // WGS 84 / NSIDC Sea Ice Polar Stereographic South
+  [3995, { method: 'polarStereographic', standardParallel1: 71 }], // WGS 84 / Arctic Polar Stereographic
+  [3996, { method: 'polarStereographic', standardParallel1: 75 }], // WGS 84 / IBCAO Polar Stereographic
+  [32661, { method: 'polarStereographic', latitudeOfOrigin: 90, scaleFactor: 0.994, falseEasting: 2000000, falseNorthing: 2000000 }], // WGS 84 / UPS North
+  [32761, { method: 'polarStereographic', latitudeOfOrigin: -90, scaleFactor: 0.994, falseEasting: 2000000, falseNorthing: 2000000 }], // WGS 84 / UPS South
+
+  // Lambert conformal conic
+  [2154, lambertZone(46.5, 3, 49, 44, 700000, 6600000)], // RGF93 / Lambert-93
+  [3034, lambertZone(52, 10, 35, 65, 4000000, 2800000)], // ETRS89-extended / LCC Europe
+  [3347, lambertZone(63.390675, -91.86666666666666, 49, 77, 6200000, 3000000)], // NAD83 / Statistics Canada Lambert
+  [3978, lambertZone(49, -95, 49, 77, 0, 0)], // NAD83 / Canada Atlas Lambert
+]);
+
+// WGS 84 / UTM zones 1N - 60N and 1S - 60S
+for (let zone = 1; zone <= 60; zone++) {
+  registry.set(32600 + zone, utmZone(zone));
+  registry.set(32700 + zone, utmZone(zone, true));
+}
+// ETRS89 / UTM zones 28N - 38N
+for (let zone = 28; zone <= 38; zone++) {
+  registry.set(25800 + zone, utmZone(zone, false, GRS80));
+}
+// NAD83 / UTM zones 1N - 23N
+for (let zone = 1; zone <= 23; zone++) {
+  registry.set(26900 + zone, utmZone(zone, false, GRS80));
+}
+// CGCS2000 / Gauss-Kruger 6 degree zones 13 - 23 and 3 degree zones 25 - 45, with and without the zone prefix
+for (let zone = 13; zone <= 23; zone++) {
+  registry.set(4478 + zone, gaussKruger(zone * 6 - 3, zone * 1000000 + 500000));
+  registry.set(4489 + zone, gaussKruger(zone * 6 - 3, 500000));
+}
+for (let zone = 25; zone <= 45; zone++) {
+  registry.set(4488 + zone, gaussKruger(zone * 3, zone * 1000000 + 500000));
+  registry.set(4509 + zone, gaussKruger(zone * 3, 500000));
+}
+// RGF93 / CC42 - CC50 conic conformal zones
+for (let zone = 42; zone <= 50; zone++) {
+  registry.set(3900 + zone, lambertZone(zone, 3, zone - 0.75, zone + 0.75, 1700000, (zone - 41) * 1000000 + 200000));
+}
+
+/**
+ * Register a projection method used by CRS definitions and GeoKey directories, replacing a built-in one with the same name
+ */
+export function registerProjectionMethod(name: string, method: ProjectionMethod) {
+  methods.set(name, method);
+}
+
+/**
+ * Register the definition of an EPSG projected CRS, or its projection functions e.g. from proj4
+ * @example
+ * registerCRS(3832, { method: 'mercator', centralMeridian: 150 })
+ */
+export function registerCRS(code: number, definition: CRSDefinition | Projection) {
+  registry.set(code, definition);
+}
+
+/**
+ * EPSG code of the geodetic datum of a GeoKey directory
+ */
+export function getDatumCode(geoKeys: Record<string, any>): number | undefined {
+  const { GeogGeodeticDatumGeoKey, GeographicTypeGeoKey } = geoKeys;
+  // EPSG geographic CRSes 4xxx mostly use the datum 6xxx
+  return GeogGeodeticDatumGeoKey ?? (GeographicTypeGeoKey >= 4000 && GeographicTypeGeoKey < 5000 ? GeographicTypeGeoKey + 2000 : undefined);
+}
+
+/**
+ * Semi-major axis in metres and inverse flattening of the ellipsoid of a GeoKey directory
+ */
+export function getEllipsoid(geoKeys: Record<string, any>): [number, number] | undefined {
+  const ellipsoid = ellipsoids[geoKeys.GeogEllipsoidGeoKey ?? datumEllipsoids[getDatumCode(geoKeys)]];
+
+  const { GeogSemiMajorAxisGeoKey, GeogSemiMinorAxisGeoKey, GeogInvFlatteningGeoKey, GeogLinearUnitsGeoKey, GeogLinearUnitSizeGeoKey } = geoKeys;
+  if (GeogSemiMajorAxisGeoKey === undefined) return ellipsoid;
+  const unitSize = GeogLinearUnitSizeGeoKey ?? linearUnits[GeogLinearUnitsGeoKey] ?? 1;
+  const a = GeogSemiMajorAxisGeoKey * unitSize;
+  if (GeogInvFlatteningGeoKey !== undefined) return [a, GeogInvFlatteningGeoKey];
+  if (GeogSemiMinorAxisGeoKey !== undefined) {
+    const b = GeogSemiMinorAxisGeoKey * unitSize;
+    return [a, a === b ? 0 : a / (a - b)];
+  }
+  return [a, ellipsoid?.[1] ?? 0];
+}
+
+/**
+ * UTM zones referenced by ``ProjectionGeoKey`` (16001 - 16060 north, 16101 - 16160 south) on the datum of the directory
+ */
+function getProjectionCodeDefinition(geoKeys: Record<string, any>): CRSDefinition | undefined {
+  const code = geoKeys.ProjectionGeoKey;
+  const zone = code % 100;
+  if (code < 16001 || code > 16160 || zone < 1 || zone > 60) return undefined;
+  const [semiMajorAxis, inverseFlattening] = getEllipsoid(geoKeys) ?? [];
+  return { ...utmZone(zone, code > 16100), semiMajorAxis, inverseFlattening };
+}
+
+/**
+ * Describe the projected CRS of a GeoKey directory from its projection method, parameters, datum and units
+ * @returns undefined if the directory does not define a projection method
+ */
+export function getCRSDefinition(geoKeys: Record<string, any>): CRSDefinition | undefined {
+  const method = coordTransMethods[geoKeys.ProjCoordTransGeoKey];
+  if (!method) {
+    return getProjectionCodeDefinition(geoKeys);
+  }
+
+  // projection angles are given in the angular unit of the geographic CRS, user-defined unit sizes are in radians
+  const { GeogAngularUnitsGeoKey, GeogAngularUnitSizeGeoKey, GeogPrimeMeridianGeoKey, GeogPrimeMeridianLongGeoKey } = geoKeys;
+  const angularUnit = angularUnits[GeogAngularUnitsGeoKey] ?? (GeogAngularUnitSizeGeoKey ? GeogAngularUnitSizeGeoKey * 180 / Math.PI : 1);
+  const first = (...keys: string[]): number | undefined => geoKeys[keys.find(key => geoKeys[key] !== undefined)];
+  const angle = (...keys: string[]) => {
+    const value = first(...keys);
+    return value === undefined ? undefined : value * angularUnit;
+  };
+  const [semiMajorAxis, inverseFlattening] = getEllipsoid(geoKeys) ?? [];
+
+  return {
+    method,
+    semiMajorAxis,
+    inverseFlattening,
+    primeMeridian: GeogPrimeMeridianLongGeoKey !== undefined ? GeogPrimeMeridianLongGeoKey * angularUnit : primeMeridians[GeogPrimeMeridianGeoKey],
+    centralMeridian: angle('ProjNatOriginLongGeoKey', 'ProjFalseOriginLongGeoKey', 'ProjCenterLongGeoKey', 'ProjStraightVertPoleLongGeoKey'),
+    latitudeOfOrigin: angle('ProjNatOriginLatGeoKey', 'ProjFalseOriginLatGeoKey', 'ProjCenterLatGeoKey'),
+    standardParallel1: angle('ProjStdParallel1GeoKey'),
+    standardParallel2: angle('ProjStdParallel2GeoKey'),
+    scaleFactor: first('ProjScaleAtNatOriginGeoKey', 'ProjScaleAtCenterGeoKey'),
+    falseEasting: first('ProjFalseEastingGeoKey', 'ProjFalseOriginEastingGeoKey', 'ProjCenterEastingGeoKey'),
+    falseNorthing: first('ProjFalseNorthingGeoKey', 'ProjFalseOriginNorthingGeoKey', 'ProjCenterNorthingGeoKey'),
+    unitSize: geoKeys.ProjLinearUnitSizeGeoKey ?? linearUnits[geoKeys.ProjLinearUnitsGeoKey],
+  };
+}
+
+/**
+ * Create the projection of a CRS definition
+ * @returns undefined if its projection method is not registered
+ */
+export function createProjection(definition: CRSDefinition): Projection | undefined {
+  const method = methods.get(definition.method);
+  if (!method) return undefined;
+  const {
+    semiMajorAxis = 6378137, inverseFlattening = 298.257223563, primeMeridian = 0, unitSize = 1,
+    centralMeridian = 0, latitudeOfOrigin = 0, scaleFactor = 1, falseEasting = 0, falseNorthing = 0,
+  } = definition;
+  const f = inverseFlattening ? 1 / inverseFlattening : 0;
+  const projection = method({
+    a: semiMajorAxis,
+    e: Math.sqrt(2 * f - f * f),
+    lon0: centralMeridian,
+    lat0: latitudeOfOrigin,
+    lat1: definition.standardParallel1,
+    lat2: definition.standardParallel2,
+    k0: scaleFactor,
+    x0: falseEasting * unitSize,
+    y0: falseNorthing * unitSize,
+  });
+  return {
+    project: ([lon, lat]) => projection.project([lon - primeMeridian, lat]).map(val => val / unitSize),
+    unproject: ([x, y]) => {
+      const [lon, lat] = projection.unproject([x * unitSize, y * unitSize]);
+      return [lon + primeMeridian, lat];
+    },
+  };
+}
+
+/** EPSG codes and ESRI aliases of the spherical web mercator */
+const webMercatorCodes = new Set([3857, 900913, 3785, 102100, 102113]);
+
+/**
+ * Classify the CRS of a GeoKey directory, user-defined spherical mercators on the WGS84 semi-major axis are web mercator
+ * @returns undefined if the directory has no CRS
+ */
+export function getCRSType(geoKeys: Record<string, any>): 'geographic' | 'webMercator' | 'projected' | undefined {
+  const { ProjectedCSTypeGeoKey, ProjCoordTransGeoKey, ProjectionGeoKey, GeographicTypeGeoKey, GTModelTypeGeoKey } = geoKeys;
+  if (webMercatorCodes.has(ProjectedCSTypeGeoKey)) return 'webMercator';
+  if (ProjectedCSTypeGeoKey === undefined && GTModelTypeGeoKey === 2) return 'geographic';
+  if (ProjectedCSTypeGeoKey !== undefined || ProjCoordTransGeoKey !== undefined || ProjectionGeoKey !== undefined) {
+    const definition = registry.has(ProjectedCSTypeGeoKey) ? undefined : getCRSDefinition(geoKeys);
+    const isWebMercator = definition?.method === 'mercator' && definition.semiMajorAxis === 6378137 && definition.inverseFlattening === 0 &&
+      !definition.centralMeridian && !definition.standardParallel1 && !definition.falseEasting && !definition.falseNorthing &&
+      (definition.scaleFactor ?? 1) === 1 && (definition.unitSize ?? 1) === 1;
+    return isWebMercator ? 'webMercator' : 'projected';
+  }
+  if (GeographicTypeGeoKey !== undefined) return 'geographic';
+  return undefined;
+}
+
+/**
+ * Get the projection of an image from the registered EPSG definitions, user-defined (32767) and unregistered CRSes
+ * are built from the GeoKey directory
+ * @param shift datum shift applied to projections built from definitions, registered projection functions are used as is
+ * @returns undefined if the CRS cannot be resolved
+ */
+export function getProjection(geoKeys: Record<string, any>, shift?: DatumShift): Projection | undefined {
+  const registered = registry.get(geoKeys.ProjectedCSTypeGeoKey);
+  if (registered && !('method' in registered)) return registered;
+  const definition = registered as CRSDefinition ?? getCRSDefinition(geoKeys);
+  const projection = definition && createProjection(definition);
+  if (!projection || !shift) return projection;
+  return {
+    project: pos => projection.project(shift.fromWGS84(pos)),
+    unproject: pos => shift.toWGS84(projection.unproject(pos)),
+  };
+}
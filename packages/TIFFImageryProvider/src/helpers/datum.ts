@@ -0,0 +1,97 @@
+import { Math as CesiumMath } from "cesium";
+import { getDatumCode, getEllipsoid } from "./crs";
+
+/** conversion of [lon, lat] positions in degrees between the datum of a TIFF and WGS84 */
+export interface DatumShift {
+  toWGS84: (pos: number[]) => number[];
+  fromWGS84: (pos: number[]) => number[];
+}
+
+/** datums within about a metre of WGS84, used as is */
+const wgs84CompatibleDatums = new Set([
+  1116, // NAD83 (2011)
+  6152, // NAD83 (HARN)
+  6167, // NZGD2000
+  6171, // RGF93
+  6258, // ETRS89
+  6269, // NAD83
+  6283, // GDA94
+  6326, // WGS 84
+  6490, // CGCS2000
+  6612, // JGD2000
+  6619, // SWEREF99
+  6674, // SIRGAS 2000
+]);
+
+/** Helmert parameters to WGS84 of common datums, like PROJ's towgs84 */
+const datumTOWGS84: Record<number, number[]> = {
+  6214: [15.8, -154.4, -82.3], // Beijing 1954
+  6230: [-87, -98, -121], // ED50
+  6267: [-8, 160, 176], // NAD27
+  6277: [446.448, -125.157, 542.06, 0.15, 0.247, 0.842, -20.489], // OSGB36
+  6284: [23.92, -141.27, -80.9, 0, 0.35, 0.82, -0.12], // Pulkovo 1942
+  6314: [598.1, 73.7, 418.2, 0.202, 0.045, -2.455, 6.7], // DHDN
+};
+
+const WGS84: [number, number] = [6378137, 298.257223563];
+
+function toGeocentric([lon, lat]: number[], [a, rf]: [number, number]) {
+  const e2 = rf ? (2 - 1 / rf) / rf : 0;
+  const phi = CesiumMath.toRadians(lat);
+  const lam = CesiumMath.toRadians(lon);
+  const n = a / Math.sqrt(1 - e2 * Math.sin(phi) ** 2);
+  return [n * Math.cos(phi) * Math.cos(lam), n * Math.cos(phi) * Math.sin(lam), n * (1 - e2) * Math.sin(phi)];
+}
+
+function toGeodetic([x, y, z]: number[], [a, rf]: [number, number]) {
+  const e2 = rf ? (2 - 1 / rf) / rf : 0;
+  const p = Math.hypot(x, y);
+  let phi = Math.atan2(z, p * (1 - e2));
+  for (let i = 0; i < 5; i++) {
+    const n = a / Math.sqrt(1 - e2 * Math.sin(phi) ** 2);
+    const h = p / Math.cos(phi) - n;
+    phi = Math.atan2(z, p * (1 - e2 * n / (n + h)));
+  }
+  return [CesiumMath.toDegrees(Math.atan2(y, x)), CesiumMath.toDegrees(phi)];
+}
+
+/**
+ * Position vector Helmert transform of geocentric positions, rotations in arc seconds and scale in ppm
+ */
+function helmert([x, y, z]: number[], [tx, ty, tz, rx = 0, ry = 0, rz = 0, ds = 0]: number[]) {
+  const toRadians = (seconds: number) => CesiumMath.toRadians(seconds / 3600);
+  const [ax, ay, az] = [rx, ry, rz].map(toRadians);
+  const s = 1 + ds * 1e-6;
+  return [
+    tx + s * (x - az * y + ay * z),
+    ty + s * (az * x + y - ax * z),
+    tz + s * (-ay * x + ax * y + z),
+  ];
+}
+
+/**
+ * Create the datum shift of a Helmert transform from an ellipsoid to WGS84, the inverse negates the parameters
+ */
+export function createHelmertShift(ellipsoid: [number, number], towgs84: number[]): DatumShift {
+  const inverse = towgs84.map(val => -val);
+  return {
+    toWGS84: pos => toGeodetic(helmert(toGeocentric(pos, ellipsoid), towgs84), WGS84),
+    fromWGS84: pos => toGeodetic(helmert(toGeocentric(pos, WGS84), inverse), ellipsoid),
+  };
+}
+
+/**
+ * Get the datum shift of a GeoKey directory from ``GeogTOWGS84GeoKey`` or the parameters of its EPSG datum
+ * @returns undefined for WGS84 compatible datums, or datums without known parameters
+ */
+export function getDatumShift(geoKeys: Record<string, any>): DatumShift | undefined {
+  const datum = getDatumCode(geoKeys);
+  const towgs84: number[] | undefined = geoKeys.GeogTOWGS84GeoKey ? [...geoKeys.GeogTOWGS84GeoKey] : datumTOWGS84[datum];
+  if (!towgs84?.some(val => val !== 0)) {
+    if (datum !== undefined && datum !== 32767 && !wgs84CompatibleDatums.has(datum) && !towgs84) {
+      console.warn(`No WGS84 datum shift for datum EPSG:${datum}, positions are used as is`);
+    }
+    return undefined;
+  }
+  return createHelmertShift(getEllipsoid(geoKeys) ?? WGS84, towgs84);
+}
@@ -0,0 +1,196 @@
+import { GeoTIFFImage } from "geotiff";
+import { PixelTransform } from "./affine";
+
+/** ground control point, pixel position (pixel corner convention) and native CRS position */
+export type GCP = {
+  col: number;
+  row: number;
+  x: number;
+  y: number;
+}
+
+export type GCPResidual = GCP & {
+  /** difference between the transformed pixel position and the GCP position, in native CRS units */
+  dx: number;
+  dy: number;
+  error: number;
+}
+
+export interface GCPOptions {
+  /** defaults to polynomial */
+  method?: 'polynomial' | 'tps';
+  /** polynomial order, defaults to 2 with 10 or more GCPs, 1 otherwise */
+  order?: 1 | 2 | 3;
+}
+
+export interface GCPFit {
+  method: 'polynomial' | 'tps';
+  order?: number;
+  /** root mean square of the GCP errors, in native CRS units */
+  rmse: number;
+  residuals: GCPResidual[];
+}
+
+/**
+ * Get the GCPs of an image georeferenced by several ``ModelTiepoint`` entries without a pixel scale or transform.
+ * PixelIsPoint tie points reference pixel centers, they are shifted to the pixel corner convention.
+ */
+export function getGCPs(image: GeoTIFFImage): GCP[] {
+  const { ModelTiepoint, ModelPixelScale, ModelTransformation } = image.fileDirectory;
+  if (ModelTransformation || ModelPixelScale || !ModelTiepoint || ModelTiepoint.length < 18) return [];
+  const shift = image.geoKeys?.GTRasterTypeGeoKey === 2 ? 0.5 : 0;
+  const gcps: GCP[] = [];
+  for (let i = 0; i + 5 < ModelTiepoint.length; i += 6) {
+    gcps.push({
+      col: ModelTiepoint[i] + shift,
+      row: ModelTiepoint[i + 1] + shift,
+      x: ModelTiepoint[i + 3],
+      y: ModelTiepoint[i + 4],
+    });
+  }
+  return gcps;
+}
+
+/**
+ * Solve a linear system with several right hand sides by Gaussian elimination with partial pivoting
+ */
+function solve(matrix: number[][], rhs: number[][]) {
+  const n = matrix.length;
+  const a = matrix.map((row, i) => [...row, ...rhs[i]]);
+  const cols = rhs[0].length;
+  for (let i = 0; i < n; i++) {
+    let pivot = i;
+    for (let j = i + 1; j < n; j++) {
+      if (Math.abs(a[j][i]) > Math.abs(a[pivot][i])) pivot = j;
+    }
+    if (Math.abs(a[pivot][i]) < 1e-12) {
+      throw new Error('The GCPs are degenerate, check for duplicate or collinear points');
+    }
+    [a[i], a[pivot]] = [a[pivot], a[i]];
+    for (let j = i + 1; j < n; j++) {
+      const factor = a[j][i] / a[i][i];
+      for (let k = i; k < n + cols; k++) {
+        a[j][k] -= factor * a[i][k];
+      }
+    }
+  }
+  const result = new Array(n).fill(0).map(() => new Array(cols).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let c = 0; c < cols; c++) {
+      let sum = a[i][n + c];
+      for (let k = i + 1; k < n; k++) {
+        sum -= a[i][k] * result[k][c];
+      }
+      result[i][c] = sum / a[i][i];
+    }
+  }
+  return result;
+}
+
+/**
+ * Center and scale the source positions to keep the systems well conditioned
+ */
+function createNormalizer(points: number[][]) {
+  const center = [0, 1].map(i => points.reduce((pre, point) => pre + point[i], 0) / points.length);
+  const scale = Math.max(...points.map(point => Math.hypot(point[0] - center[0], point[1] - center[1]))) || 1;
+  return (point: number[]) => [(point[0] - center[0]) / scale, (point[1] - center[1]) / scale];
+}
+
+function polynomialTerms([u, v]: number[], order: number) {
+  const terms: number[] = [];
+  for (let n = 0; n <= order; n++) {
+    for (let j = 0; j <= n; j++) {
+      terms.push(u ** (n - j) * v ** j);
+    }
+  }
+  return terms;
+}
+
+/**
+ * Least squares polynomial mapping source positions to target positions
+ */
+function fitPolynomial(source: number[][], target: number[][], order: number) {
+  const normalize = createNormalizer(source);
+  const rows = source.map(point => polynomialTerms(normalize(point), order));
+  const count = rows[0].length;
+  if (source.length < count) {
+    throw new Error(`A polynomial of order ${order} requires at least ${count} GCPs, got ${source.length}`);
+  }
+  const normal = new Array(count).fill(0).map((_, i) =>
+    new Array(count).fill(0).map((_, j) => rows.reduce((pre, row) => pre + row[i] * row[j], 0))
+  );
+  const rhs = new Array(count).fill(0).map((_, i) =>
+    [0, 1].map(c => rows.reduce((pre, row, k) => pre + row[i] * target[k][c], 0))
+  );
+  const coefficients = solve(normal, rhs);
+  return (point: number[]) => {
+    const terms = polynomialTerms(normalize(point), order);
+    return [0, 1].map(c => terms.reduce((pre, term, i) => pre + term * coefficients[i][c], 0));
+  };
+}
+
+function tpsKernel(distanceSquared: number) {
+  return distanceSquared ? distanceSquared * Math.log(distanceSquared) : 0;
+}
+
+/**
+ * Thin plate spline passing exactly through the control points
+ */
+function fitThinPlateSpline(source: number[][], target: number[][]) {
+  const normalize = createNormalizer(source);
+  const points = source.map(normalize);
+  const n = points.length;
+  const matrix = new Array(n + 3).fill(0).map(() => new Array(n + 3).fill(0));
+  points.forEach(([u, v], i) => {
+    points.forEach(([u2, v2], j) => {
+      matrix[i][j] = tpsKernel((u - u2) ** 2 + (v - v2) ** 2);
+    });
+    [1, u, v].forEach((val, k) => {
+      matrix[i][n + k] = val;
+      matrix[n + k][i] = val;
+    });
+  });
+  const rhs = [...target.map(point => [point[0], point[1]]), [0, 0], [0, 0], [0, 0]];
+  const weights = solve(matrix, rhs);
+  return (point: number[]) => {
+    const [u, v] = normalize(point);
+    return [0, 1].map(c => {
+      let value = weights[n][c] + weights[n + 1][c] * u + weights[n + 2][c] * v;
+      for (let i = 0; i < n; i++) {
+        value += weights[i][c] * tpsKernel((u - points[i][0]) ** 2 + (v - points[i][1]) ** 2);
+      }
+      return value;
+    });
+  };
+}
+
+/**
+ * Fit the pixel to native CRS transform of GCPs and its inverse, both directions are fitted separately like GDAL does
+ */
+export function fitGCPTransform(gcps: GCP[], options: GCPOptions = {}): GCPFit & { transform: PixelTransform } {
+  const method = options.method ?? 'polynomial';
+  const order = options.order ?? (gcps.length >= 10 ? 2 : 1);
+  const pixels = gcps.map(({ col, row }) => [col, row]);
+  const positions = gcps.map(({ x, y }) => [x, y]);
+  const fit = (source: number[][], target: number[][]) =>
+    method === 'tps' ? fitThinPlateSpline(source, target) : fitPolynomial(source, target, order);
+  const forward = fit(pixels, positions);
+  const inverse = fit(positions, pixels);
+
+  const residuals = gcps.map(gcp => {
+    const [x, y] = forward([gcp.col, gcp.row]);
+    const dx = x - gcp.x;
+    const dy = y - gcp.y;
+    return { ...gcp, dx, dy, error: Math.hypot(dx, dy) };
+  });
+  return {
+    method,
+    order: method === 'polynomial' ? order : undefined,
+    rmse: Math.sqrt(residuals.reduce((pre, { error }) => pre + error ** 2, 0) / residuals.length),
+    residuals,
+    transform: {
+      toNative: (col, row) => forward([col, row]),
+      toPixel: (x, y) => inverse([x, y]),
+    },
+  };
+}
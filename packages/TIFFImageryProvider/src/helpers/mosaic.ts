@@ -0,0 +1,114 @@
+import GeoTIFF, { GeoTIFFImage } from "geotiff";
+import { TypedArray } from "../plotty/typing";
+import { BBox } from "./reprojection";
+import { NoData, isNoData } from "./utils";
+
+export type MosaicSource = {
+  source: GeoTIFF;
+  /** non-mask images, from full resolution to the coarsest overview */
+  images: GeoTIFFImage[];
+  /** internal mask images */
+  masks: GeoTIFFImage[];
+  /** bounding box in the native CRS */
+  bbox: BBox;
+  reverseY: boolean;
+}
+
+export function unionBBox(bboxes: BBox[]): BBox {
+  return bboxes.reduce((pre, bbox) => [
+    Math.min(pre[0], bbox[0]),
+    Math.min(pre[1], bbox[1]),
+    Math.max(pre[2], bbox[2]),
+    Math.max(pre[3], bbox[3]),
+  ], [Infinity, Infinity, -Infinity, -Infinity] as BBox);
+}
+
+export function intersectBBox(a: BBox, b: BBox): BBox | undefined {
+  const bbox: BBox = [
+    Math.max(a[0], b[0]),
+    Math.max(a[1], b[1]),
+    Math.min(a[2], b[2]),
+    Math.min(a[3], b[3]),
+  ];
+  if (bbox[0] >= bbox[2] || bbox[1] >= bbox[3]) return undefined;
+  return bbox;
+}
+
+/**
+ * Get the index of the coarsest image whose pixel size is still finer than the requested resolution
+ * multiplied by the tolerance, falls back to the finest image. Images may be in any order and
+ * overviews may have any reduction factor.
+ * @param images images sharing the same bounding box
+ * @param bbox bounding box shared by all images
+ * @param resolution requested pixel size in native CRS units, or the pixel size along x and y
+ * @param tolerance oversampling tolerance, values above 1 accept overviews coarser than the requested resolution
+ */
+export function selectOverviewIndex(images: GeoTIFFImage[], bbox: BBox, resolution: number | number[], tolerance = 1) {
+  const [resX, resY] = Array.isArray(resolution) ? resolution : [resolution, undefined];
+  const width = bbox[2] - bbox[0];
+  const height = bbox[3] - bbox[1];
+  let selected = -1;
+  let finest = 0;
+  images.forEach((image, i) => {
+    if (image.getWidth() > images[finest].getWidth()) {
+      finest = i;
+    }
+    const sufficient = width / image.getWidth() <= resX * tolerance &&
+      (resY === undefined || height / image.getHeight() <= resY * tolerance);
+    if (sufficient && (selected === -1 || image.getWidth() < images[selected].getWidth())) {
+      selected = i;
+    }
+  });
+  return selected === -1 ? finest : selected;
+}
+
+/**
+ * Pick the coarsest image whose pixel size is still finer than the requested resolution,
+ * falls back to the full resolution image.
+ * @param images images sharing the same bounding box
+ * @param bbox bounding box shared by all images
+ * @param resolution requested pixel size in native CRS units
+ * @param tolerance oversampling tolerance, defaults to 1
+ */
+export function selectOverview(images: GeoTIFFImage[], bbox: BBox, resolution: number | number[], tolerance = 1) {
+  return images[selectOverviewIndex(images, bbox, resolution, tolerance)];
+}
+
+/**
+ * Convert a native CRS bbox to a pixel window of an image covering ``imageBBox``
+ */
+export function bboxToWindow(bbox: BBox, imageBBox: BBox, width: number, height: number, reverseY = false) {
+  const [west, south, east, north] = imageBBox;
+  const resX = (east - west) / width;
+  const resY = (north - south) / height;
+  const top = reverseY ? bbox[1] - south : north - bbox[3];
+  const bottom = reverseY ? bbox[3] - south : north - bbox[1];
+  return [
+    Math.max(0, Math.floor((bbox[0] - west) / resX)),
+    Math.max(0, Math.floor(top / resY)),
+    Math.min(width, Math.ceil((bbox[2] - west) / resX)),
+    Math.min(height, Math.ceil(bottom / resY)),
+  ];
+}
+
+/**
+ * Copy ``source`` into ``target`` at [x, y], pixels outside of ``target`` are clipped,
+ * nodata values and pixels whose ``alpha`` is 0 do not overwrite existing values
+ */
+export function pasteWindow(
+  target: TypedArray,
+  targetWidth: number,
+  targetHeight: number,
+  source: TypedArray,
+  [x, y, width, height]: number[],
+  nodata?: NoData,
+  alpha?: TypedArray
+) {
+  for (let row = Math.max(0, -y); row < Math.min(height, targetHeight - y); row++) {
+    for (let col = Math.max(0, -x); col < Math.min(width, targetWidth - x); col++) {
+      const val = source[row * width + col];
+      if (isNoData(val, nodata) || alpha?.[row * width + col] === 0) continue;
+      target[(row + y) * targetWidth + col + x] = val;
+    }
+  }
+}
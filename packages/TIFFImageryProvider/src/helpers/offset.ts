@@ -0,0 +1,94 @@
+import { Projection } from "./projections";
+
+/** geographic coordinate systems of Chinese basemaps, GCJ-02 and BD-09 offset WGS84 positions by up to several hundred metres */
+export type OffsetCoordinateSystem = 'wgs84' | 'gcj02' | 'bd09';
+
+/** Krassowsky ellipsoid used by the GCJ-02 offset */
+const KRASSOWSKY_A = 6378245;
+const KRASSOWSKY_EE = 0.00669342162296594323;
+const BD_PI = Math.PI * 3000 / 180;
+
+function isOutOfChina([lon, lat]: number[]) {
+  return lon < 72.004 || lon > 137.8347 || lat < 0.8293 || lat > 55.8271;
+}
+
+function offsetLat(x: number, y: number) {
+  let ret = -100 + 2 * x + 3 * y + 0.2 * y * y + 0.1 * x * y + 0.2 * Math.sqrt(Math.abs(x));
+  ret += (20 * Math.sin(6 * x * Math.PI) + 20 * Math.sin(2 * x * Math.PI)) * 2 / 3;
+  ret += (20 * Math.sin(y * Math.PI) + 40 * Math.sin(y / 3 * Math.PI)) * 2 / 3;
+  ret += (160 * Math.sin(y / 12 * Math.PI) + 320 * Math.sin(y * Math.PI / 30)) * 2 / 3;
+  return ret;
+}
+
+function offsetLon(x: number, y: number) {
+  let ret = 300 + x + 2 * y + 0.1 * x * x + 0.1 * x * y + 0.1 * Math.sqrt(Math.abs(x));
+  ret += (20 * Math.sin(6 * x * Math.PI) + 20 * Math.sin(2 * x * Math.PI)) * 2 / 3;
+  ret += (20 * Math.sin(x * Math.PI) + 40 * Math.sin(x / 3 * Math.PI)) * 2 / 3;
+  ret += (150 * Math.sin(x / 12 * Math.PI) + 300 * Math.sin(x / 30 * Math.PI)) * 2 / 3;
+  return ret;
+}
+
+export function wgs84ToGcj02(pos: number[]) {
+  if (isOutOfChina(pos)) return pos;
+  const [lon, lat] = pos;
+  const phi = lat / 180 * Math.PI;
+  const magic = 1 - KRASSOWSKY_EE * Math.sin(phi) ** 2;
+  const sqrtMagic = Math.sqrt(magic);
+  const dLat = offsetLat(lon - 105, lat - 35) * 180 / ((KRASSOWSKY_A * (1 - KRASSOWSKY_EE)) / (magic * sqrtMagic) * Math.PI);
+  const dLon = offsetLon(lon - 105, lat - 35) * 180 / (KRASSOWSKY_A / sqrtMagic * Math.cos(phi) * Math.PI);
+  return [lon + dLon, lat + dLat];
+}
+
+/**
+ * Inverse of ``wgs84ToGcj02`` by fixed point iteration, precise to about a millimetre
+ */
+export function gcj02ToWgs84(pos: number[]) {
+  if (isOutOfChina(pos)) return pos;
+  let [lon, lat] = pos;
+  for (let i = 0; i < 10; i++) {
+    const [gcjLon, gcjLat] = wgs84ToGcj02([lon, lat]);
+    const dLon = gcjLon - pos[0];
+    const dLat = gcjLat - pos[1];
+    lon -= dLon;
+    lat -= dLat;
+    if (Math.abs(dLon) < 1e-9 && Math.abs(dLat) < 1e-9) break;
+  }
+  return [lon, lat];
+}
+
+export function gcj02ToBd09([lon, lat]: number[]) {
+  const z = Math.hypot(lon, lat) + 0.00002 * Math.sin(lat * BD_PI);
+  const theta = Math.atan2(lat, lon) + 0.000003 * Math.cos(lon * BD_PI);
+  return [z * Math.cos(theta) + 0.0065, z * Math.sin(theta) + 0.006];
+}
+
+export function bd09ToGcj02([lon, lat]: number[]) {
+  const x = lon - 0.0065;
+  const y = lat - 0.006;
+  const z = Math.hypot(x, y) - 0.00002 * Math.sin(y * BD_PI);
+  const theta = Math.atan2(y, x) - 0.000003 * Math.cos(x * BD_PI);
+  return [z * Math.cos(theta), z * Math.sin(theta)];
+}
+
+const toWGS84: Record<OffsetCoordinateSystem, (pos: number[]) => number[]> = {
+  wgs84: pos => pos,
+  gcj02: gcj02ToWgs84,
+  bd09: pos => gcj02ToWgs84(bd09ToGcj02(pos)),
+};
+
+const fromWGS84: Record<OffsetCoordinateSystem, (pos: number[]) => number[]> = {
+  wgs84: pos => pos,
+  gcj02: wgs84ToGcj02,
+  bd09: pos => gcj02ToBd09(wgs84ToGcj02(pos)),
+};
+
+/**
+ * Conversion between [lon, lat] positions of the basemap coordinate system ``to`` and of the raster coordinate system ``from``,
+ * ``project`` converts basemap positions to raster positions
+ */
+export function createCoordinateOffset(from: OffsetCoordinateSystem, to: OffsetCoordinateSystem): Projection {
+  return {
+    project: pos => fromWGS84[from](toWGS84[to](pos)),
+    unproject: pos => fromWGS84[to](toWGS84[from](pos)),
+  };
+}
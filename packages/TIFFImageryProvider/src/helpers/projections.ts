@@ -0,0 +1,225 @@
+import { Math as CesiumMath } from "cesium";
+
+/** conversion between [lon, lat] positions in degrees and [x, y] positions in the native CRS */
+export interface Projection {
+  project: (pos: number[]) => number[];
+  unproject: (pos: number[]) => number[];
+}
+
+/** parameters passed to a projection method, angles are in degrees and distances in metres */
+export interface ProjectionParameters {
+  /** semi-major axis of the ellipsoid */
+  a: number;
+  /** eccentricity of the ellipsoid, 0 for a sphere */
+  e: number;
+  /** central meridian */
+  lon0: number;
+  /** latitude of origin */
+  lat0: number;
+  lat1?: number;
+  lat2?: number;
+  /** scale factor at the natural origin */
+  k0: number;
+  /** false easting */
+  x0: number;
+  /** false northing */
+  y0: number;
+}
+
+/** create the forward and inverse functions of a projection family, positions are in degrees and metres */
+export type ProjectionMethod = (params: ProjectionParameters) => Projection;
+
+const { toRadians, toDegrees, negativePiToPi } = CesiumMath;
+
+/** latitudes beyond this are clamped by cylindrical projections which diverge at the poles */
+const MAXIMUM_MERCATOR_LATITUDE = 85.0511287798;
+
+/**
+ * Snyder's t function (15-9), the exponential of minus the isometric latitude
+ */
+export function tsfn(phi: number, e: number) {
+  const s = e * Math.sin(phi);
+  return Math.tan(Math.PI / 4 - phi / 2) / ((1 - s) / (1 + s)) ** (e / 2);
+}
+
+/**
+ * Inverse of ``tsfn`` by fixed point iteration (Snyder 7-9)
+ */
+export function phiFromTs(ts: number, e: number) {
+  let phi = Math.PI / 2 - 2 * Math.atan(ts);
+  for (let i = 0; i < 15; i++) {
+    const s = e * Math.sin(phi);
+    const next = Math.PI / 2 - 2 * Math.atan(ts * ((1 - s) / (1 + s)) ** (e / 2));
+    if (Math.abs(next - phi) < 1e-12) return next;
+    phi = next;
+  }
+  return phi;
+}
+
+/**
+ * Mercator on the ellipsoid, variant A with a scale factor or variant B with a standard parallel
+ */
+export const mercator: ProjectionMethod = ({ a, e, lon0, lat1, k0, x0, y0 }) => {
+  const k = lat1 === undefined ? k0 : Math.cos(toRadians(lat1)) / Math.sqrt(1 - (e * Math.sin(toRadians(lat1))) ** 2);
+  const lam0 = toRadians(lon0);
+  return {
+    project: ([lon, lat]) => {
+      const phi = toRadians(CesiumMath.clamp(lat, -MAXIMUM_MERCATOR_LATITUDE, MAXIMUM_MERCATOR_LATITUDE));
+      return [
+        x0 + a * k * negativePiToPi(toRadians(lon) - lam0),
+        y0 - a * k * Math.log(tsfn(phi, e)),
+      ];
+    },
+    unproject: ([x, y]) => [
+      toDegrees((x - x0) / (a * k) + lam0),
+      toDegrees(phiFromTs(Math.exp(-(y - y0) / (a * k)), e)),
+    ],
+  };
+};
+
+/**
+ * Equidistant cylindrical (plate carrée when the standard parallel is the equator), spherical formulas on the semi-major axis like PROJ's eqc
+ */
+export const equirectangular: ProjectionMethod = ({ a, lon0, lat0, lat1 = 0, x0, y0 }) => {
+  const scale = Math.cos(toRadians(lat1));
+  const lam0 = toRadians(lon0);
+  const phi0 = toRadians(lat0);
+  return {
+    project: ([lon, lat]) => [
+      x0 + a * scale * negativePiToPi(toRadians(lon) - lam0),
+      y0 + a * (toRadians(lat) - phi0),
+    ],
+    unproject: ([x, y]) => [
+      toDegrees((x - x0) / (a * scale) + lam0),
+      toDegrees((y - y0) / a + phi0),
+    ],
+  };
+};
+
+/** ``cos(phi) / sqrt(1 - e² sin²(phi))``, parallel radius in semi-major axis units (Snyder 14-15) */
+function msfn(phi: number, e: number) {
+  return Math.cos(phi) / Math.sqrt(1 - (e * Math.sin(phi)) ** 2);
+}
+
+/**
+ * Transverse Mercator with the Krüger series to the third order, accurate to the millimetre within a few degrees of
+ * the central meridian like UTM and Gauss-Krüger zones
+ */
+export const transverseMercator: ProjectionMethod = ({ a, e, lon0, lat0, k0, x0, y0 }) => {
+  const f = 1 - Math.sqrt(1 - e * e);
+  const n = f / (2 - f);
+  const A = a / (1 + n) * (1 + n ** 2 / 4 + n ** 4 / 64);
+  const alpha = [
+    n / 2 - 2 * n ** 2 / 3 + 5 * n ** 3 / 16,
+    13 * n ** 2 / 48 - 3 * n ** 3 / 5,
+    61 * n ** 3 / 240,
+  ];
+  const beta = [
+    n / 2 - 2 * n ** 2 / 3 + 37 * n ** 3 / 96,
+    n ** 2 / 48 + n ** 3 / 15,
+    17 * n ** 3 / 480,
+  ];
+  const lam0 = toRadians(lon0);
+  // conformal latitude, the latitude on the conformal sphere
+  const chi = (phi: number) => Math.PI / 2 - 2 * Math.atan(tsfn(phi, e));
+  const chi0 = chi(toRadians(lat0));
+  // meridian distance of the latitude of origin
+  const m0 = A * alpha.reduce((pre, val, j) => pre + val * Math.sin(2 * (j + 1) * chi0), chi0);
+
+  return {
+    project: ([lon, lat]) => {
+      const lam = negativePiToPi(toRadians(lon) - lam0);
+      const c = chi(toRadians(lat));
+      const xi = Math.atan2(Math.tan(c), Math.cos(lam));
+      const eta = Math.atanh(Math.sin(lam) * Math.cos(c));
+      let x = eta, y = xi;
+      alpha.forEach((val, j) => {
+        const k = 2 * (j + 1);
+        x += val * Math.cos(k * xi) * Math.sinh(k * eta);
+        y += val * Math.sin(k * xi) * Math.cosh(k * eta);
+      });
+      return [x0 + k0 * A * x, y0 + k0 * (A * y - m0)];
+    },
+    unproject: ([x, y]) => {
+      const xi = ((y - y0) / k0 + m0) / A;
+      const eta = (x - x0) / (k0 * A);
+      let xi1 = xi, eta1 = eta;
+      beta.forEach((val, j) => {
+        const k = 2 * (j + 1);
+        xi1 -= val * Math.sin(k * xi) * Math.cosh(k * eta);
+        eta1 -= val * Math.cos(k * xi) * Math.sinh(k * eta);
+      });
+      const c = Math.asin(Math.sin(xi1) / Math.cosh(eta1));
+      return [
+        toDegrees(lam0 + Math.atan2(Math.sinh(eta1), Math.cos(xi1))),
+        toDegrees(phiFromTs(Math.tan(Math.PI / 4 - c / 2), e)),
+      ];
+    },
+  };
+};
+
+/**
+ * Polar stereographic, variant A with a scale factor at the pole (latitude of origin ±90) like UPS,
+ * or variant B with a latitude of true scale like the NSIDC grids. The sign of the latitude selects the pole.
+ */
+export const polarStereographic: ProjectionMethod = ({ a, e, lon0, lat0, lat1, k0, x0, y0 }) => {
+  const latTs = lat1 ?? (Math.abs(lat0) === 90 ? undefined : lat0);
+  const south = (latTs ?? lat0) < 0;
+  const sign = south ? -1 : 1;
+  // distance from the pole per unit of t
+  let scale: number;
+  if (latTs === undefined) {
+    scale = 2 * a * k0 / Math.sqrt((1 + e) ** (1 + e) * (1 - e) ** (1 - e));
+  } else {
+    const phiTs = toRadians(Math.abs(latTs));
+    scale = a * msfn(phiTs, e) / tsfn(phiTs, e);
+  }
+  const lam0 = toRadians(lon0);
+  return {
+    project: ([lon, lat]) => {
+      const rho = scale * tsfn(sign * toRadians(lat), e);
+      const lam = toRadians(lon) - lam0;
+      return [x0 + rho * Math.sin(lam), y0 - sign * rho * Math.cos(lam)];
+    },
+    unproject: ([x, y]) => {
+      const dx = x - x0;
+      const dy = y - y0;
+      const phi = phiFromTs(Math.hypot(dx, dy) / scale, e);
+      return [toDegrees(negativePiToPi(lam0 + Math.atan2(dx, -sign * dy))), toDegrees(sign * phi)];
+    },
+  };
+};
+
+/**
+ * Lambert conformal conic with two standard parallels, or with one at the latitude of origin and a scale factor
+ */
+export const lambertConformalConic: ProjectionMethod = ({ a, e, lon0, lat0, lat1, lat2, k0, x0, y0 }) => {
+  const phi0 = toRadians(lat0);
+  const phi1 = toRadians(lat1 ?? lat0);
+  const phi2 = toRadians(lat2 ?? lat1 ?? lat0);
+  const m1 = msfn(phi1, e);
+  const t1 = tsfn(phi1, e);
+  const n = phi1 === phi2 ? Math.sin(phi1) : Math.log(m1 / msfn(phi2, e)) / Math.log(t1 / tsfn(phi2, e));
+  // the scale factor only applies to the single parallel variant
+  const aF = a * (lat1 === undefined ? k0 : 1) * m1 / (n * t1 ** n);
+  const rho0 = aF * tsfn(phi0, e) ** n;
+  const lam0 = toRadians(lon0);
+  return {
+    project: ([lon, lat]) => {
+      const rho = aF * tsfn(toRadians(lat), e) ** n;
+      const theta = n * negativePiToPi(toRadians(lon) - lam0);
+      return [x0 + rho * Math.sin(theta), y0 + rho0 - rho * Math.cos(theta)];
+    },
+    unproject: ([x, y]) => {
+      const sign = Math.sign(n);
+      const dx = x - x0;
+      const dy = rho0 - (y - y0);
+      const rho = sign * Math.hypot(dx, dy);
+      const theta = Math.atan2(sign * dx, sign * dy);
+      return [
+        toDegrees(theta / n + lam0),
+        toDegrees(phiFromTs((rho / aF) ** (1 / n), e)),
+      ];
+    },
+  };
+};
@@ -1,105 +1,54 @@
-import { TypedArray } from "geotiff";
-
-export function copyNewSize(array: TypedArray, width: number, height: number, samplesPerPixel = 1) {
-  return new (Object.getPrototypeOf(array).constructor)(width * height * samplesPerPixel) as typeof array;
-}
-
 export type BBox = [minX: number, minY: number, maxX: number, maxY: number];
 
-export type ReprojectionOptions = {
-  project: (pos: number[]) => number[];
-  sourceBBox: BBox;
-  targetBBox: BBox;
-  data: TypedArray;
-  sourceWidth: number;
-  sourceHeight: number;
-  targetWidth?: number;
-  targetHeight?: number;
-  nodata?: any;
+/**
+ * Grid of triangles warping a tile onto source data in another grid, the vertices are evenly spaced over the tile
+ * and the reprojection is linear within each cell
+ */
+export interface ReprojectionMesh {
+  /** number of cells along the columns */
+  columns: number;
+  /** number of cells along the rows */
+  rows: number;
+  /** fractional pixel positions [col, row, ...] in the source data of the (columns + 1) * (rows + 1) vertices, row by row from the top left */
+  positions: Float32Array;
 }
 
-function inRange(val: number, range: [number, number]) {
-  if ((val < range[0] && val < range[1]) || (val > range[0] && val > range[1])) {
-    return false;
-  } else {
-    return true;
-  }
-}
-
-// 处理单个数据块
-function processChunk(
-  options: ReprojectionOptions,
-  result: TypedArray,
-  startRow: number,
-  endRow: number,
-  targetWidth: number,
-  targetHeight: number
-) {
-  const { data, sourceBBox, targetBBox, project, sourceWidth, sourceHeight, nodata } = options;
-  const [minX, minY, maxX, maxY] = sourceBBox;
-  const [minLon, minLat, maxLon, maxLat] = targetBBox;
-
-  const stepX = Math.abs(maxX - minX) / sourceWidth;
-  const stepY = Math.abs(maxY - minY) / sourceHeight;
-  const stepLon = Math.abs(maxLon - minLon) / targetWidth;
-  const stepLat = Math.abs(maxLat - minLat) / targetHeight;
-
-  // 使用批量处理优化内部循环
-  const colBatchSize = 100;
-  for (let i = startRow; i < endRow; i++) {
-    for (let jBatch = 0; jBatch < targetWidth; jBatch += colBatchSize) {
-      const endJ = Math.min(jBatch + colBatchSize, targetWidth);
-      for (let j = jBatch; j < endJ; j++) {
-        const lon = minLon + stepLon * (j + 0.5);
-        const lat = maxLat - stepLat * (i + 0.5);
-        const [x, y] = project([lon, lat]);
-
-        if (!inRange(x, [minX, maxX]) || !inRange(y, [minY, maxY])) {
-          result[i * targetWidth + j] = nodata;
-          continue;
-        }
-
-        const indexX = ~~((x - minX) / stepX);
-        const indexY = ~~((maxY - y) / stepY);
-        result[i * targetWidth + j] = data[indexY * sourceWidth + indexX];
-      }
+/**
+ * Create the mesh of a tile by converting its grid positions to source pixel positions
+ * @param targetBBox bounding box of the tile
+ * @param toPixel convert a target position to a fractional pixel position of the source data
+ * @param columns number of cells along the columns, positions are computed once per vertex
+ * @param rows number of cells along the rows
+ */
+export function createReprojectionMesh(targetBBox: BBox, toPixel: (pos: number[]) => number[], columns = 16, rows = columns): ReprojectionMesh {
+  const [minX, minY, maxX, maxY] = targetBBox;
+  const positions = new Float32Array((columns + 1) * (rows + 1) * 2);
+  for (let j = 0; j <= rows; j++) {
+    for (let i = 0; i <= columns; i++) {
+      const [col, row] = toPixel([minX + (maxX - minX) * i / columns, maxY - (maxY - minY) * j / rows]);
+      const index = (j * (columns + 1) + i) * 2;
+      // positions outside of the projection domain are sampled as nodata
+      positions[index] = Number.isFinite(col) ? col : -1;
+      positions[index + 1] = Number.isFinite(row) ? row : -1;
     }
   }
+  return { columns, rows, positions };
 }
 
-export async function reprojection(options: ReprojectionOptions): Promise<TypedArray> {
-  const { targetWidth = options.sourceWidth, targetHeight = options.sourceHeight } = options;
-  const result = copyNewSize(options.data, targetWidth, targetHeight).fill(options.nodata);
-
-  // 如果数据量较小，使用同步处理
-  if (targetHeight * targetWidth < 10000) {
-    processChunk(options, result, 0, targetHeight, targetWidth, targetHeight);
-    return result;
-  }
-
-  // 计算最佳的块大小
-  const CHUNK_SIZE = Math.min(100, Math.max(10, Math.floor(targetHeight / 10)));
-
-  try {
-    // 分块处理
-    for (let startRow = 0; startRow < targetHeight; startRow += CHUNK_SIZE) {
-      const endRow = Math.min(startRow + CHUNK_SIZE, targetHeight);
-      await new Promise<void>((resolve) => {
-        requestAnimationFrame(() => {
-          processChunk(options, result, startRow, endRow, targetWidth, targetHeight);
-          resolve();
-        });
-      });
-    }
-    return result;
-  } finally {
-    // 在 finally 块中清理源数据，确保无论成功失败都会执行
-    if (options.data !== result) {
-      try {
-        options.data.fill(0);
-      } catch (e) {
-        console.warn('Failed to clean up source data:', e);
-      }
-    }
-  }
-}
\ No newline at end of file
+/**
+ * Get the source pixel position of a fractional tile position, the bilinear interpolation of the cell corners
+ * @param u position along the columns of the tile, 0-1
+ * @param v position along the rows of the tile, 0-1
+ */
+export function interpolateMesh({ columns, rows, positions }: ReprojectionMesh, u: number, v: number) {
+  const x = Math.min(Math.max(u * columns, 0), columns);
+  const y = Math.min(Math.max(v * rows, 0), rows);
+  const i = Math.min(Math.floor(x), columns - 1);
+  const j = Math.min(Math.floor(y), rows - 1);
+  const fx = x - i, fy = y - j;
+  const corner = (di: number, dj: number, axis: number) => positions[((j + dj) * (columns + 1) + i + di) * 2 + axis];
+  return [0, 1].map(axis =>
+    (corner(0, 0, axis) * (1 - fx) + corner(1, 0, axis) * fx) * (1 - fy) +
+    (corner(0, 1, axis) * (1 - fx) + corner(1, 1, axis) * fx) * fy
+  );
+}
@@ -0,0 +1,67 @@
+import { RequestErrorEvent, Resource } from "cesium";
+import { BaseClient, BaseResponse } from "geotiff";
+
+export type FetchFunction = (url: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Response of a fetch implementing geotiff's BaseResponse, whose declaration types the status code as void
+ * and the data as synchronous, so the client returns it through a cast like the GeoTIFF like sources
+ */
+class FetchResponse {
+  constructor(private readonly response: Response) { }
+
+  get ok() {
+    return this.response.ok;
+  }
+
+  get status() {
+    return this.response.status;
+  }
+
+  getHeader(name: string) {
+    return this.response.headers.get(name);
+  }
+
+  getData() {
+    return this.response.arrayBuffer();
+  }
+}
+
+/**
+ * geotiff client sending every header and range request through a custom fetch
+ */
+export class CustomFetchClient extends BaseClient {
+  constructor(url: string, private readonly fetchFn: FetchFunction, private readonly credentials?: any) {
+    super(url);
+  }
+
+  async request({ headers, signal }: { headers?: HeadersInit; signal?: AbortSignal; } = {}): Promise<BaseResponse> {
+    const response = await this.fetchFn(this.url, { headers, credentials: this.credentials, signal });
+    return new FetchResponse(response) as unknown as BaseResponse;
+  }
+}
+
+/**
+ * Send requests through a Cesium Resource: urls are derived from the resource so its query parameters,
+ * proxy and headers apply, and retryCallback is called on failed requests, e.g. to refresh an expired token.
+ */
+export function createResourceFetch(resource: Resource, fetchFn: FetchFunction = (url, init) => fetch(url, init)): FetchFunction {
+  return async (url, init = {}) => {
+    const derived = url === resource.url ? resource : resource.getDerivedResource({ url });
+    let retries = 0;
+    while (true) {
+      const response = await fetchFn(derived.url, {
+        ...init,
+        headers: { ...derived.headers, ...init.headers as Record<string, string> },
+      });
+      if (response.ok || !derived.retryCallback || retries >= (derived.retryAttempts ?? 0)) {
+        return response;
+      }
+      retries++;
+      const retry = await derived.retryCallback(derived, new RequestErrorEvent(response.status, undefined, response.headers));
+      if (!retry) {
+        return response;
+      }
+    }
+  }
+}
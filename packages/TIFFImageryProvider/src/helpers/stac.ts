@@ -0,0 +1,166 @@
+export interface StacRasterBand {
+  nodata?: number | 'nan' | 'inf' | '-inf';
+  scale?: number;
+  offset?: number;
+  unit?: string;
+  data_type?: string;
+  statistics?: {
+    minimum?: number;
+    maximum?: number;
+    mean?: number;
+    stddev?: number;
+  };
+}
+
+export interface StacEoBand {
+  name?: string;
+  common_name?: string;
+  description?: string;
+}
+
+export interface StacAsset {
+  href: string;
+  type?: string;
+  roles?: string[];
+  'eo:bands'?: StacEoBand[];
+  'raster:bands'?: StacRasterBand[];
+}
+
+export interface StacLink {
+  rel: string;
+  href: string;
+}
+
+export interface StacItem {
+  type: 'Feature';
+  id: string;
+  assets: Record<string, StacAsset>;
+  links?: StacLink[];
+  properties?: Record<string, any>;
+}
+
+export interface StacItemCollection {
+  type: 'FeatureCollection';
+  features: StacItem[];
+  links?: StacLink[];
+}
+
+/** wider types rarely use their full range, their statistics are computed from the data instead */
+const DATA_TYPE_RANGES: Record<string, [number, number]> = {
+  uint8: [0, 255],
+  int8: [-128, 127],
+}
+
+function resolveHref(href: string, base?: string) {
+  return base ? new URL(href, base).href : href;
+}
+
+function parseNoData(nodata: StacRasterBand['nodata']) {
+  if (nodata === undefined || nodata === null) return undefined;
+  if (nodata === 'nan') return NaN;
+  if (nodata === 'inf') return Infinity;
+  if (nodata === '-inf') return -Infinity;
+  return +nodata;
+}
+
+/**
+ * Fetch a STAC Item or ItemCollection and resolve the asset hrefs to absolute urls
+ */
+export async function resolveStacItems(
+  itemOrUrl: string | StacItem | StacItemCollection,
+  headers?: Record<string, any>,
+  fetchFn: (url: string, init?: RequestInit) => Promise<Response> = (url, init) => fetch(url, init)
+) {
+  const json: StacItem | StacItemCollection = typeof itemOrUrl === 'string' ?
+    await (await fetchFn(itemOrUrl, { headers })).json() :
+    itemOrUrl;
+  const baseUrl = typeof itemOrUrl === 'string' ? itemOrUrl : undefined;
+  const items = json.type === 'FeatureCollection' ? json.features : [json];
+
+  return items.map(item => {
+    const base = resolveHref(item.links?.find(link => link.rel === 'self')?.href ?? '', baseUrl) || undefined;
+    const assets = Object.keys(item.assets).reduce((pre, key) => ({
+      ...pre,
+      [key]: {
+        ...item.assets[key],
+        href: resolveHref(item.assets[key].href, base),
+      }
+    }), {} as Record<string, StacAsset>);
+    return { ...item, assets };
+  });
+}
+
+/**
+ * Get the asset keys to load, defaults to every GeoTIFF asset with the ``data`` role
+ */
+export function selectStacAssets(item: StacItem, assets?: string[]) {
+  if (assets?.length) {
+    const missing = assets.find(key => !item.assets[key]);
+    if (missing) {
+      throw new Error(`STAC item ${item.id} has no asset named ${missing}`);
+    }
+    return assets;
+  }
+  return Object.keys(item.assets).filter(key => {
+    const { type, roles } = item.assets[key];
+    return type?.startsWith('image/tiff') && (!roles || roles.includes('data'));
+  });
+}
+
+/**
+ * Convert STAC band metadata to GDAL style metadata items and the nodata of each band
+ */
+export function getStacBandMetadata(asset: StacAsset) {
+  const rasterBands = asset['raster:bands'] ?? [];
+  const metadata = rasterBands.map(band => {
+    const item: Record<string, string> = {};
+    const { minimum, maximum } = band.statistics ?? {};
+    const range = DATA_TYPE_RANGES[band.data_type];
+    if (minimum !== undefined && maximum !== undefined) {
+      item.STATISTICS_MINIMUM = `${minimum}`;
+      item.STATISTICS_MAXIMUM = `${maximum}`;
+    } else if (range) {
+      item.STATISTICS_MINIMUM = `${range[0]}`;
+      item.STATISTICS_MAXIMUM = `${range[1]}`;
+    }
+    if (band.scale !== undefined) item.SCALE = `${band.scale}`;
+    if (band.offset !== undefined) item.OFFSET = `${band.offset}`;
+    if (band.unit !== undefined) item.UNITTYPE = band.unit;
+    return item;
+  });
+  return {
+    metadata,
+    nodata: rasterBands.map(band => parseNoData(band.nodata)),
+  };
+}
+
+/**
+ * Get the names referencing each band of the stacked assets, the asset key references its first band,
+ * ``eo:bands`` names and common names reference their own band.
+ * @returns names and the corresponding band number (start from 1)
+ */
+export function getStacBandNames(item: StacItem, assets: string[], samples: number[]) {
+  const names: [string, number][] = [];
+  let band = 1;
+  assets.forEach((key, index) => {
+    names.push([key, band]);
+    item.assets[key]['eo:bands']?.forEach((eoBand, i) => {
+      if (eoBand.name) names.push([eoBand.name, band + i]);
+      if (eoBand.common_name) names.push([eoBand.common_name, band + i]);
+    });
+    band += samples[index];
+  });
+  return names;
+}
+
+/**
+ * Replace band names in an expression with band identifiers like ``b1``
+ */
+export function replaceBandNames(expression: string, names: [string, number][]) {
+  return [...names]
+    .sort((a, b) => b[0].length - a[0].length)
+    .reduce((pre, [name, band]) => {
+      const escaped = name.replace(/[.*+?^${}()|[\]\\-]/g, '\\$&');
+      return pre.replace(new RegExp(`(^|[^\\w])${escaped}(?![\\w])`, 'g'), `$1b${band}`);
+    }, expression);
+}
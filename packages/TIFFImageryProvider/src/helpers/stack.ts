@@ -0,0 +1,206 @@
+import GeoTIFF, { GeoTIFFImage, TypedArrayArrayWithDimensions } from "geotiff";
+import { TypedArray } from "../plotty/typing";
+import { BBox } from "./reprojection";
+import { selectOverview } from "./mosaic";
+import { isMaskImage } from "./utils";
+
+export type ReadRasterOptions = Parameters<GeoTIFFImage['readRasters']>[0];
+
+export type StackLayer = {
+  source: GeoTIFF;
+  /** GDAL style metadata per sample of the layer, merged over the file metadata */
+  metadata?: Record<string, string>[];
+  /** nodata per sample of the layer, overriding the file nodata */
+  nodata?: number[];
+}
+
+type StackedImageLayer = {
+  image: GeoTIFFImage;
+  bbox: BBox;
+  samples: number;
+  metadata?: Record<string, string>[];
+  nodata?: number[];
+}
+
+/**
+ * An image whose samples are read from the same area of several files,
+ * the first layer defines the pixel grid.
+ */
+export class StackedImage {
+  fileDirectory: any;
+  geoKeys: any;
+  isTiled: boolean;
+
+  constructor(private readonly reference: GeoTIFFImage, private readonly layers: StackedImageLayer[]) {
+    this.fileDirectory = reference.fileDirectory;
+    this.geoKeys = reference.geoKeys;
+    this.isTiled = reference.isTiled;
+  }
+
+  getFileDirectory() {
+    return this.fileDirectory;
+  }
+
+  getGeoKeys() {
+    return this.geoKeys;
+  }
+
+  getWidth() {
+    return this.reference.getWidth();
+  }
+
+  getHeight() {
+    return this.reference.getHeight();
+  }
+
+  getTileWidth() {
+    return this.reference.getTileWidth();
+  }
+
+  getTileHeight() {
+    return this.reference.getTileHeight();
+  }
+
+  getOrigin() {
+    return this.reference.getOrigin();
+  }
+
+  getResolution(referenceImage?: GeoTIFFImage) {
+    return this.reference.getResolution(referenceImage);
+  }
+
+  getBoundingBox() {
+    return this.layers[0].bbox.slice();
+  }
+
+  pixelIsArea() {
+    return this.reference.pixelIsArea();
+  }
+
+  getSamplesPerPixel() {
+    return this.layers.reduce((pre, layer) => pre + layer.samples, 0);
+  }
+
+  getGDALMetadata(sample: number = null) {
+    if (sample === null) {
+      return this.reference.getGDALMetadata();
+    }
+    const { layer, index } = this._getLayer(sample);
+    return {
+      ...layer.image.getGDALMetadata(index),
+      ...layer.metadata?.[index],
+    };
+  }
+
+  /** nodata of the sample, defaults to the first sample */
+  getGDALNoData(sample: number = null) {
+    if (sample === null) {
+      return this.layers[0].nodata?.[0] ?? this.reference.getGDALNoData();
+    }
+    const { layer, index } = this._getLayer(sample);
+    return layer.nodata?.[index] ?? layer.image.getGDALNoData();
+  }
+
+  async readRasters(options: ReadRasterOptions = {}) {
+    const { window: wnd, samples, width, height, fillValue, ...rest } = options;
+    const window = wnd ?? [0, 0, this.getWidth(), this.getHeight()];
+    const outWidth = width ?? window[2] - window[0];
+    const outHeight = height ?? window[3] - window[1];
+    const sampleList = samples ?? new Array(this.getSamplesPerPixel()).fill(0).map((_, i) => i);
+
+    const [west, south, east, north] = this.layers[0].bbox;
+    const resX = (east - west) / this.getWidth();
+    const resY = (north - south) / this.getHeight();
+    const bbox: BBox = [
+      west + window[0] * resX,
+      north - window[3] * resY,
+      west + window[2] * resX,
+      north - window[1] * resY,
+    ];
+
+    const data = await Promise.all(sampleList.map(async (sample, i) => {
+      const { layer, index } = this._getLayer(sample);
+      const layerWidth = layer.image.getWidth();
+      const layerHeight = layer.image.getHeight();
+      const [layerWest, layerSouth, layerEast, layerNorth] = layer.bbox;
+      // windows outside of the image are allowed, geotiff fills them with fillValue
+      const layerWindow = [
+        Math.round((bbox[0] - layerWest) / (layerEast - layerWest) * layerWidth),
+        Math.round((layerNorth - bbox[3]) / (layerNorth - layerSouth) * layerHeight),
+        Math.round((bbox[2] - layerWest) / (layerEast - layerWest) * layerWidth),
+        Math.round((layerNorth - bbox[1]) / (layerNorth - layerSouth) * layerHeight),
+      ];
+      const [array] = await layer.image.readRasters({
+        ...rest,
+        window: layerWindow,
+        samples: [index],
+        width: outWidth,
+        height: outHeight,
+        fillValue: Array.isArray(fillValue) ? fillValue[i] : fillValue,
+        interleave: false,
+      }) as TypedArray[];
+      return array;
+    }));
+
+    return Object.assign(data, { width: outWidth, height: outHeight }) as TypedArrayArrayWithDimensions;
+  }
+
+  readRGB(options: ReadRasterOptions = {}) {
+    return this.readRasters({ ...options, samples: [0, 1, 2] });
+  }
+
+  private _getLayer(sample: number) {
+    let index = sample;
+    for (const layer of this.layers) {
+      if (index < layer.samples) {
+        return { layer, index };
+      }
+      index -= layer.samples;
+    }
+    throw new Error(`Invalid sample index ${sample}`);
+  }
+}
+
+/**
+ * A GeoTIFF like source stacking the samples of several files covering the same area
+ */
+export class StackedGeoTIFF {
+  private constructor(private readonly images: StackedImage[]) { }
+
+  static async fromLayers(layers: StackLayer[]) {
+    const layerImages = await Promise.all(layers.map(async ({ source }) => {
+      const images: GeoTIFFImage[] = [];
+      const count = await source.getImageCount();
+      for (let i = 0; i < count; i++) {
+        const image = await source.getImage(i);
+        if (!isMaskImage(image)) {
+          images.push(image);
+        }
+      }
+      return images;
+    }));
+    const bboxes = layerImages.map(images => images[0].getBoundingBox() as BBox);
+    const [west, , east] = bboxes[0];
+
+    const images = layerImages[0].map(reference => new StackedImage(reference, layers.map((layer, i) => {
+      // match the layer overview to the reference resolution
+      const image = i === 0 ? reference : selectOverview(layerImages[i], bboxes[i], (east - west) / reference.getWidth());
+      return {
+        image,
+        bbox: bboxes[i],
+        samples: image.getSamplesPerPixel(),
+        metadata: layer.metadata,
+        nodata: layer.nodata,
+      }
+    })));
+    return new StackedGeoTIFF(images);
+  }
+
+  async getImage(index = 0) {
+    return this.images[index] as unknown as GeoTIFFImage;
+  }
+
+  async getImageCount() {
+    return this.images.length;
+  }
+}
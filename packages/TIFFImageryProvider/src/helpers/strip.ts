@@ -0,0 +1,83 @@
+import GeoTIFF, { GeoTIFFImage, TypedArrayArrayWithDimensions } from "geotiff";
+import { TypedArray } from "../plotty/typing";
+import { ReadRasterOptions } from "./stack";
+
+/**
+ * Total byte count of the image data of a non-tiled source, used to decide between range reads and a full download
+ */
+export async function getStripDataSize(source: GeoTIFF) {
+  const count = await source.getImageCount();
+  let size = 0;
+  for (let i = 0; i < count; i++) {
+    const { StripByteCounts } = (await source.getImage(i)).fileDirectory;
+    size += StripByteCounts ? Array.from(StripByteCounts as ArrayLike<number>).reduce((pre, val) => pre + val, 0) : 0;
+  }
+  return size;
+}
+
+/**
+ * Get ``count`` evenly spaced pixel indices between ``start`` and ``end``, extended by ``buffer`` indices on both sides
+ */
+export function getSampledPixels(start: number, end: number, count: number, buffer = 0) {
+  const step = (end - start) / count;
+  return new Array(count + buffer * 2).fill(0).map((_, i) => Math.floor(start + (i - buffer + 0.5) * step));
+}
+
+/**
+ * Read the samples of a non-tiled image at the given rows and columns with nearest neighbour sampling,
+ * only the strips containing the rows are requested. Pixels outside of the image are filled with ``fillValue``.
+ */
+export async function readStripSamples(image: GeoTIFFImage, rows: number[], columns: number[], options: ReadRasterOptions = {}) {
+  const { samples, fillValue, pool, signal } = options;
+  const width = image.getWidth();
+  const height = image.getHeight();
+  const rowsPerStrip = image.getTileHeight();
+  const sampleList = samples?.length ? samples : new Array(image.getSamplesPerPixel()).fill(0).map((_, i) => i);
+
+  const result = sampleList.map((sample, i) => {
+    const array = image.getArrayForSample(sample, rows.length * columns.length);
+    const fill = Array.isArray(fillValue) ? fillValue[i] : fillValue;
+    return fill === undefined ? array : array.fill(fill);
+  });
+
+  const inside = columns.filter(col => col >= 0 && col < width);
+  if (!inside.length) {
+    return Object.assign(result, { width: columns.length, height: rows.length }) as TypedArrayArrayWithDimensions;
+  }
+  const left = Math.min(...inside);
+  const right = Math.max(...inside) + 1;
+
+  // output rows grouped by strip
+  const strips = new Map<number, number[]>();
+  rows.forEach((row, i) => {
+    if (row < 0 || row >= height) return;
+    const strip = Math.floor(row / rowsPerStrip);
+    strips.set(strip, [...strips.get(strip) ?? [], i]);
+  });
+
+  // decoded strips span the whole window width, a few are read at a time to bound the memory use
+  const entries = [...strips.entries()];
+  for (let i = 0; i < entries.length; i += 8) {
+    await Promise.all(entries.slice(i, i + 8).map(async ([strip, outputRows]) => {
+      const top = strip * rowsPerStrip;
+      const data = await image.readRasters({
+        window: [left, top, right, Math.min(top + rowsPerStrip, height)],
+        samples: sampleList,
+        pool,
+        signal,
+        interleave: false,
+      }) as TypedArray[];
+      const stripWidth = right - left;
+      outputRows.forEach(outputRow => {
+        const offset = (rows[outputRow] - top) * stripWidth;
+        columns.forEach((col, j) => {
+          if (col < left || col >= right) return;
+          data.forEach((array, s) => {
+            result[s][outputRow * columns.length + j] = array[offset + col - left];
+          });
+        });
+      });
+    }));
+  }
+  return Object.assign(result, { width: columns.length, height: rows.length }) as TypedArrayArrayWithDimensions;
+}
@@ -1,11 +1,39 @@
 import { Color } from "cesium";
-import { TypedArray } from "geotiff";
+import { GeoTIFFImage, TypedArray } from "geotiff";
 
-export function getMinMax(data: number[], nodata: number) {
+/** a nodata value, or an inclusive range of nodata values, use -Infinity / Infinity for open ranges */
+export type NoData = number | [number, number];
+
+export function isNoData(value: number, nodata?: NoData) {
+  if (isNaN(value)) return true;
+  if (Array.isArray(nodata)) {
+    return value >= nodata[0] && value <= nodata[1];
+  }
+  return value === nodata;
+}
+
+/**
+ * Get a value matching the nodata, used to fill pixels without data
+ */
+export function getNoDataFill(nodata?: NoData) {
+  if (Array.isArray(nodata)) {
+    return isFinite(nodata[0]) ? nodata[0] : nodata[1];
+  }
+  return nodata;
+}
+
+/**
+ * Get the nodata of a sample, virtual images stacking several files accept the sample index
+ */
+export function getSampleNoData(image: GeoTIFFImage, sample: number): number | null {
+  return (image.getGDALNoData as (sample?: number) => number | null).call(image, sample);
+}
+
+export function getMinMax(data: number[], nodata: NoData) {
   let min: number, max: number;
   for (let j = 0; j < data.length; j += 1) {
     const val = data[j];
-    if (val === nodata) continue;
+    if (isNoData(val, nodata)) continue;
     if (min === undefined && max === undefined) {
       min = max = val;
       continue;
@@ -106,3 +134,66 @@ export async function reverseArray({ array, width, height }: { array: TypedArray
   }
   return newArray;
 }
+
+/**
+ * Whether the image is a transparency mask (NewSubfileType bit 2)
+ */
+export function isMaskImage(image: GeoTIFFImage) {
+  const type = image.fileDirectory.NewSubfileType || 0;
+  return (type & 4) === 4;
+}
+
+/**
+ * Reduced resolution images are overviews of the preceding full resolution page
+ */
+export function isOverviewImage(image: GeoTIFFImage) {
+  const type = image.fileDirectory.NewSubfileType || 0;
+  return (type & 1) === 1;
+}
+
+/**
+ * Get the alpha sample of an image from ExtraSamples (1: associated alpha, 2: unassociated alpha)
+ * @returns the sample index and the value of a fully opaque pixel
+ */
+export function getAlphaSample(image: GeoTIFFImage) {
+  const { ExtraSamples, SamplesPerPixel, BitsPerSample, SampleFormat } = image.fileDirectory;
+  // virtual images may stack samples of several files
+  if (!ExtraSamples || SamplesPerPixel !== image.getSamplesPerPixel()) return undefined;
+  const extra = [...ExtraSamples].findIndex((type: number) => type === 1 || type === 2);
+  if (extra === -1) return undefined;
+  const index = SamplesPerPixel - ExtraSamples.length + extra;
+  const isFloat = SampleFormat?.[index] === 3;
+  return {
+    index,
+    max: isFloat ? 1 : 2 ** (BitsPerSample?.[index] ?? 8) - 1,
+  };
+}
+
+/**
+ * Convert mask or alpha band values to opacity in the range 0-1
+ */
+export function normalizeAlpha(array: TypedArray, max: number) {
+  const result = new Float32Array(array.length);
+  for (let i = 0; i < array.length; i++) {
+    result[i] = Math.min(array[i] / max, 1);
+  }
+  return result;
+}
+
+/**
+ * Get the RGBA colors of a palette image (PhotometricInterpretation = 3) from its 16 bit ColorMap
+ */
+export function getPaletteColors(image: GeoTIFFImage) {
+  const { PhotometricInterpretation, ColorMap } = image.fileDirectory;
+  if (PhotometricInterpretation !== 3 || !ColorMap) return undefined;
+  // the color map stores all reds, then all greens, then all blues
+  const size = ColorMap.length / 3;
+  const colors = new Uint8Array(size * 4);
+  for (let i = 0; i < size; i++) {
+    colors[i * 4] = ColorMap[i] >> 8;
+    colors[i * 4 + 1] = ColorMap[size + i] >> 8;
+    colors[i * 4 + 2] = ColorMap[size * 2 + i] >> 8;
+    colors[i * 4 + 3] = 255;
+  }
+  return colors;
+}
@@ -0,0 +1,160 @@
+import { TypedArray } from "../plotty/typing";
+import { NoData, isNoData } from "./utils";
+
+/** a band of the tile data with the conversion of its stored values */
+export interface VectorBand {
+  data: TypedArray;
+  scale: number;
+  offset: number;
+  nodata?: NoData;
+}
+
+export interface VectorSymbolOptions {
+  symbol: 'arrow' | 'barb';
+  /** distance between the symbols in pixels */
+  spacing: number;
+  lineWidth: number;
+  /** speed of the longest arrow, slower arrows are shorter */
+  maxSpeed: number;
+  /** factor converting the speed to knots for the barbs */
+  knotsFactor: number;
+  /** barbs are drawn on the other side of the staff in the southern hemisphere */
+  southern: boolean;
+}
+
+/**
+ * Sample a band bilinearly at a fractional pixel position, pixel centers are at +0.5 and nodata pixels are skipped
+ * @returns undefined outside of the data or without valid neighbours
+ */
+export function sampleBand({ data, scale, offset, nodata }: VectorBand, width: number, height: number, [col, row]: number[]) {
+  if (!(col >= 0 && row >= 0 && col < width && row < height)) return undefined;
+  const x = Math.min(Math.max(col - 0.5, 0), width - 1);
+  const y = Math.min(Math.max(row - 0.5, 0), height - 1);
+  const i = Math.max(Math.min(Math.floor(x), width - 2), 0);
+  const j = Math.max(Math.min(Math.floor(y), height - 2), 0);
+  const fx = x - i, fy = y - j;
+  let value = 0, weight = 0;
+  [[0, 0, (1 - fx) * (1 - fy)], [1, 0, fx * (1 - fy)], [0, 1, (1 - fx) * fy], [1, 1, fx * fy]].forEach(([di, dj, w]) => {
+    const c = i + di, r = j + dj;
+    if (c >= width || r >= height || w === 0) return;
+    const stored = data[r * width + c];
+    if (isNoData(stored, nodata)) return;
+    value += (stored * scale + offset) * w;
+    weight += w;
+  });
+  return weight > 0 ? value / weight : undefined;
+}
+
+function drawArrow(ctx: CanvasRenderingContext2D, x: number, y: number, [dx, dy]: number[], length: number) {
+  const head = Math.max(length * 0.3, 3);
+  const tipX = x + dx * length / 2, tipY = y + dy * length / 2;
+  ctx.beginPath();
+  ctx.moveTo(x - dx * length / 2, y - dy * length / 2);
+  ctx.lineTo(tipX, tipY);
+  // the head lines are 30 degrees off the shaft
+  [Math.PI / 6, -Math.PI / 6].forEach(angle => {
+    const cos = Math.cos(angle), sin = Math.sin(angle);
+    ctx.moveTo(tipX, tipY);
+    ctx.lineTo(tipX - head * (dx * cos - dy * sin), tipY - head * (dx * sin + dy * cos));
+  });
+  ctx.stroke();
+}
+
+/**
+ * Draw a wind barb centered on the position, the staff points to where the wind comes from with pennants for 50 knots,
+ * full barbs for 10 knots and half barbs for 5 knots at its far end
+ */
+function drawBarb(ctx: CanvasRenderingContext2D, x: number, y: number, [dx, dy]: number[], length: number, knots: number, southern: boolean) {
+  const total = Math.round(knots / 5) * 5;
+  let rest = total;
+  if (total === 0) {
+    // calm
+    ctx.beginPath();
+    ctx.arc(x, y, Math.max(length * 0.1, 2), 0, Math.PI * 2);
+    ctx.stroke();
+    return;
+  }
+  // upwind direction along the staff, and the side of the barbs clockwise from it in the northern hemisphere
+  const [ux, uy] = [-dx, -dy];
+  const [nx, ny] = southern ? [uy, -ux] : [-uy, ux];
+  const barb = length * 0.4, step = length * 0.12;
+  let px = x + ux * length / 2, py = y + uy * length / 2;
+  ctx.beginPath();
+  ctx.moveTo(x - ux * length / 2, y - uy * length / 2);
+  ctx.lineTo(px, py);
+  ctx.stroke();
+
+  ctx.beginPath();
+  while (rest >= 50) {
+    ctx.moveTo(px, py);
+    ctx.lineTo(px + nx * barb, py + ny * barb);
+    ctx.lineTo(px - ux * step, py - uy * step);
+    ctx.closePath();
+    px -= ux * step * 1.5;
+    py -= uy * step * 1.5;
+    rest -= 50;
+  }
+  ctx.fill();
+
+  ctx.beginPath();
+  // a lone half barb is set off the end of the staff
+  if (total === 5) {
+    px -= ux * step;
+    py -= uy * step;
+  }
+  while (rest >= 5) {
+    const size = rest >= 10 ? barb : barb / 2;
+    ctx.moveTo(px, py);
+    ctx.lineTo(px + (nx + ux * 0.5) * size, py + (ny + uy * 0.5) * size);
+    px -= ux * step;
+    py -= uy * step;
+    rest -= rest >= 10 ? 10 : 5;
+  }
+  ctx.stroke();
+}
+
+/**
+ * Draw the symbols of a vector field on a grid of the tile, the cells keep about ``spacing`` pixels on screen at every
+ * zoom level and line up with the neighbouring tiles
+ * @param sample get the eastward and northward components at a pixel position of the tile, undefined without data
+ * @param getColor get the css color of a speed, undefined to skip the symbol
+ */
+export function drawVectors(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  sample: (x: number, y: number) => number[] | undefined,
+  getColor: (speed: number) => string | undefined,
+  { symbol, spacing, lineWidth, maxSpeed, knotsFactor, southern }: VectorSymbolOptions
+) {
+  const columns = Math.max(Math.round(width / spacing), 1);
+  const rows = Math.max(Math.round(height / spacing), 1);
+  const cellWidth = width / columns, cellHeight = height / rows;
+  // the symbols stay within their cell so that they are not cut at the tile border
+  const length = Math.min(cellWidth, cellHeight) * 0.9;
+  ctx.save();
+  ctx.lineWidth = lineWidth;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  for (let j = 0; j < rows; j++) {
+    for (let i = 0; i < columns; i++) {
+      const x = (i + 0.5) * cellWidth, y = (j + 0.5) * cellHeight;
+      const components = sample(x, y);
+      if (!components) continue;
+      const [u, v] = components;
+      const speed = Math.hypot(u, v);
+      const color = getColor(speed);
+      if (!color) continue;
+      ctx.strokeStyle = color;
+      ctx.fillStyle = color;
+      // screen rows grow southwards
+      const direction = speed > 0 ? [u / speed, -v / speed] : [0, -1];
+      if (symbol === 'barb') {
+        drawBarb(ctx, x, y, direction, length, speed * knotsFactor, southern);
+      } else if (speed > 0) {
+        drawArrow(ctx, x, y, direction, length * Math.min(Math.max(speed / maxSpeed, 0.25), 1));
+      }
+    }
+  }
+  ctx.restore();
+}
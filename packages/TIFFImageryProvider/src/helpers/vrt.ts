@@ -0,0 +1,393 @@
+import GeoTIFF, { GeoTIFFImage, TypedArrayArrayWithDimensions } from "geotiff";
+import { TypedArray } from "../plotty/typing";
+import { ReadRasterOptions } from "./stack";
+import { isMaskImage } from "./utils";
+
+export type VRTSource = {
+  filename: string;
+  /** band index start from 1 */
+  sourceBand: number;
+  /** [xOff, yOff, xSize, ySize] in source pixels, defaults to the whole source */
+  srcRect?: number[];
+  /** [xOff, yOff, xSize, ySize] in VRT pixels, defaults to the whole VRT */
+  dstRect?: number[];
+  nodata?: number;
+  scaleOffset?: number;
+  scaleRatio?: number;
+}
+
+export type VRTBand = {
+  nodata?: number;
+  metadata: Record<string, string>;
+  sources: VRTSource[];
+}
+
+export type VRTDefinition = {
+  width: number;
+  height: number;
+  geoTransform?: number[];
+  /** EPSG code read from the SRS */
+  epsg?: number;
+  projected?: boolean;
+  blockSize?: number;
+  bands: VRTBand[];
+}
+
+type OpenedSource = {
+  images: GeoTIFFImage[];
+  width: number;
+  height: number;
+}
+
+function getNumber(el: Element | null | undefined, name: string) {
+  const text = el?.getElementsByTagName(name)[0]?.textContent;
+  return text === undefined || text === null || text.trim() === '' ? undefined : +text;
+}
+
+function getRect(el: Element | undefined) {
+  if (!el) return undefined;
+  return ['xOff', 'yOff', 'xSize', 'ySize'].map(key => +el.getAttribute(key));
+}
+
+function resolveFilename(filename: string, relativeToVRT: boolean, baseUrl?: string) {
+  filename = filename.replace(/^\/vsicurl\//, '');
+  if (!relativeToVRT) return filename;
+  if (!baseUrl) {
+    throw new Error(`Can not resolve VRT source ${filename} relative to a local file`);
+  }
+  return new URL(filename, baseUrl).href;
+}
+
+/**
+ * Parse a GDAL VRT document, only simple and complex sources are supported
+ * @param xml VRT XML text
+ * @param baseUrl url of the VRT, used to resolve relative source filenames
+ */
+export function parseVRT(xml: string, baseUrl?: string): VRTDefinition {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const dataset = doc.getElementsByTagName('VRTDataset')[0];
+  if (!dataset) {
+    throw new Error('Invalid VRT document');
+  }
+
+  const geoTransform = dataset.getElementsByTagName('GeoTransform')[0]?.textContent?.split(',').map(val => +val);
+  const srs = dataset.getElementsByTagName('SRS')[0]?.textContent ?? '';
+  const authorities = [...srs.matchAll(/(?:AUTHORITY\["EPSG",\s*"?|ID\["EPSG",\s*|EPSG:)(\d+)/g)];
+  const epsg = authorities.length ? +authorities[authorities.length - 1][1] : undefined;
+
+  const bands = Array.from(dataset.getElementsByTagName('VRTRasterBand')).map(bandEl => {
+    const metadata: Record<string, string> = {};
+    Array.from(bandEl.getElementsByTagName('MDI')).forEach(mdi => {
+      metadata[mdi.getAttribute('key')] = mdi.textContent;
+    });
+    const scale = getNumber(bandEl, 'Scale');
+    const offset = getNumber(bandEl, 'Offset');
+    const unit = bandEl.getElementsByTagName('UnitType')[0]?.textContent;
+    if (scale !== undefined) metadata.SCALE = `${scale}`;
+    if (offset !== undefined) metadata.OFFSET = `${offset}`;
+    if (unit) metadata.UNITTYPE = unit;
+
+    const sources = Array.from(bandEl.children)
+      .filter(el => ['SimpleSource', 'ComplexSource', 'AveragedSource'].includes(el.tagName))
+      .map(sourceEl => {
+        const filenameEl = sourceEl.getElementsByTagName('SourceFilename')[0];
+        return {
+          filename: resolveFilename(filenameEl.textContent.trim(), filenameEl.getAttribute('relativeToVRT') === '1', baseUrl),
+          sourceBand: getNumber(sourceEl, 'SourceBand') ?? 1,
+          srcRect: getRect(sourceEl.getElementsByTagName('SrcRect')[0]),
+          dstRect: getRect(sourceEl.getElementsByTagName('DstRect')[0]),
+          nodata: getNumber(sourceEl, 'NODATA'),
+          scaleOffset: getNumber(sourceEl, 'ScaleOffset'),
+          scaleRatio: getNumber(sourceEl, 'ScaleRatio'),
+        }
+      });
+
+    return {
+      nodata: getNumber(bandEl, 'NoDataValue'),
+      metadata,
+      sources,
+    }
+  });
+
+  return {
+    width: +dataset.getAttribute('rasterXSize'),
+    height: +dataset.getAttribute('rasterYSize'),
+    geoTransform,
+    epsg,
+    projected: /^\s*PROJ(CS|CRS)/.test(srs) || undefined,
+    blockSize: +(dataset.getElementsByTagName('VRTRasterBand')[0]?.getAttribute('blockXSize') ?? 0) || undefined,
+    bands,
+  };
+}
+
+/**
+ * Whether the url or file is a GDAL VRT document
+ */
+export function isVRT(url: string | File | Blob) {
+  if (typeof url === 'string') {
+    return /\.vrt$/i.test(url.split(/[?#]/)[0]);
+  }
+  return url instanceof File && /\.vrt$/i.test(url.name);
+}
+
+/**
+ * One resolution level of a VRT, levels other than 0 are virtual overviews read from the source overviews
+ */
+export class VRTImage {
+  fileDirectory: any;
+  geoKeys: any;
+  isTiled = true;
+
+  constructor(
+    private readonly definition: VRTDefinition,
+    private readonly sources: Map<string, OpenedSource>,
+    private readonly width: number,
+    private readonly height: number,
+    geoKeys: any,
+  ) {
+    this.geoKeys = geoKeys;
+    this.fileDirectory = {
+      ImageWidth: width,
+      ImageLength: height,
+    };
+    if (width !== definition.width) {
+      // virtual overviews are reduced resolution images of the full VRT, not other pages
+      this.fileDirectory.NewSubfileType = 1;
+    }
+
+    const gt = definition.geoTransform;
+    if (gt && width === definition.width) {
+      if (gt[2] || gt[4]) {
+        this.fileDirectory.ModelTransformation = [gt[1], gt[2], 0, gt[0], gt[4], gt[5], 0, gt[3], 0, 0, 0, 0, 0, 0, 0, 1];
+      } else {
+        this.fileDirectory.ModelPixelScale = [gt[1], -gt[5], 0];
+        this.fileDirectory.ModelTiepoint = [0, 0, 0, gt[0], gt[3], 0];
+      }
+    }
+  }
+
+  getFileDirectory() {
+    return this.fileDirectory;
+  }
+
+  getGeoKeys() {
+    return this.geoKeys;
+  }
+
+  getWidth() {
+    return this.width;
+  }
+
+  getHeight() {
+    return this.height;
+  }
+
+  getTileWidth() {
+    return this.definition.blockSize || 256;
+  }
+
+  getTileHeight() {
+    return this.definition.blockSize || 256;
+  }
+
+  getSamplesPerPixel() {
+    return this.definition.bands.length;
+  }
+
+  getOrigin() {
+    const gt = this.definition.geoTransform;
+    if (!gt) {
+      throw new Error('The image does not have an affine transformation.');
+    }
+    return [gt[0], gt[3], 0];
+  }
+
+  getResolution() {
+    const gt = this.definition.geoTransform;
+    if (!gt) {
+      throw new Error('The image does not have an affine transformation.');
+    }
+    const scaleX = this.definition.width / this.width;
+    const scaleY = this.definition.height / this.height;
+    return [Math.hypot(gt[1], gt[4]) * scaleX, -Math.hypot(gt[2], gt[5]) * scaleY, 0];
+  }
+
+  getBoundingBox() {
+    const gt = this.definition.geoTransform;
+    if (!gt) {
+      throw new Error('The image does not have an affine transformation.');
+    }
+    const { width, height } = this.definition;
+    const corners = [[0, 0], [0, height], [width, 0], [width, height]].map(([I, J]) => [
+      gt[0] + gt[1] * I + gt[2] * J,
+      gt[3] + gt[4] * I + gt[5] * J,
+    ]);
+    const xs = corners.map(pos => pos[0]);
+    const ys = corners.map(pos => pos[1]);
+    return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+  }
+
+  pixelIsArea() {
+    return this.geoKeys?.GTRasterTypeGeoKey === 1;
+  }
+
+  getGDALMetadata(sample: number = null) {
+    if (sample === null) return {};
+    return this.definition.bands[sample]?.metadata ?? {};
+  }
+
+  /** nodata of a band, defaults to the first band */
+  getGDALNoData(sample: number = null) {
+    return this.definition.bands[sample ?? 0]?.nodata ?? null;
+  }
+
+  async readRasters(options: ReadRasterOptions = {}) {
+    const { window: wnd, samples, width, height, fillValue, pool, resampleMethod, signal } = options;
+    const window = wnd ?? [0, 0, this.width, this.height];
+    const outWidth = width ?? window[2] - window[0];
+    const outHeight = height ?? window[3] - window[1];
+    const sampleList = samples ?? this.definition.bands.map((_, i) => i);
+
+    // window in full resolution VRT pixels
+    const scaleX = this.definition.width / this.width;
+    const scaleY = this.definition.height / this.height;
+    const fullWindow = [window[0] * scaleX, window[1] * scaleY, window[2] * scaleX, window[3] * scaleY];
+    const pixelX = (fullWindow[2] - fullWindow[0]) / outWidth;
+    const pixelY = (fullWindow[3] - fullWindow[1]) / outHeight;
+
+    const data = await Promise.all(sampleList.map(async (sample, i) => {
+      const band = this.definition.bands[sample];
+      const fill = Array.isArray(fillValue) ? fillValue[i] : fillValue;
+      const result = new Float32Array(outWidth * outHeight).fill(band.nodata ?? fill ?? 0);
+
+      const reads = await Promise.all(band.sources.map(async (source) => {
+        const opened = this.sources.get(source.filename);
+        const [sx, sy, sw, sh] = source.srcRect ?? [0, 0, opened.width, opened.height];
+        const [dx, dy, dw, dh] = source.dstRect ?? [0, 0, this.definition.width, this.definition.height];
+
+        // the part of the destination rectangle inside the window, snapped to output pixels
+        const x0 = Math.max(0, Math.round((Math.max(dx, fullWindow[0]) - fullWindow[0]) / pixelX));
+        const y0 = Math.max(0, Math.round((Math.max(dy, fullWindow[1]) - fullWindow[1]) / pixelY));
+        const x1 = Math.min(outWidth, Math.round((Math.min(dx + dw, fullWindow[2]) - fullWindow[0]) / pixelX));
+        const y1 = Math.min(outHeight, Math.round((Math.min(dy + dh, fullWindow[3]) - fullWindow[1]) / pixelY));
+        if (x1 <= x0 || y1 <= y0) return undefined;
+
+        // the same area in full resolution source pixels
+        const ratioX = sw / dw, ratioY = sh / dh;
+        const srcWindow = [
+          sx + (fullWindow[0] + x0 * pixelX - dx) * ratioX,
+          sy + (fullWindow[1] + y0 * pixelY - dy) * ratioY,
+          sx + (fullWindow[0] + x1 * pixelX - dx) * ratioX,
+          sy + (fullWindow[1] + y1 * pixelY - dy) * ratioY,
+        ];
+
+        // read from the coarsest overview still finer than the output
+        const sourcePixel = (srcWindow[2] - srcWindow[0]) / (x1 - x0);
+        let image = opened.images[0];
+        for (const overview of opened.images.slice(1)) {
+          if (opened.width / overview.getWidth() > sourcePixel) break;
+          image = overview;
+        }
+        const factorX = opened.width / image.getWidth();
+        const factorY = opened.height / image.getHeight();
+
+        const [array] = await image.readRasters({
+          window: [
+            Math.floor(srcWindow[0] / factorX),
+            Math.floor(srcWindow[1] / factorY),
+            Math.max(Math.floor(srcWindow[0] / factorX) + 1, Math.ceil(srcWindow[2] / factorX)),
+            Math.max(Math.floor(srcWindow[1] / factorY) + 1, Math.ceil(srcWindow[3] / factorY)),
+          ],
+          samples: [source.sourceBand - 1],
+          width: x1 - x0,
+          height: y1 - y0,
+          pool,
+          resampleMethod,
+          signal,
+          interleave: false,
+        }) as TypedArray[];
+        return { array, rect: [x0, y0, x1 - x0, y1 - y0] };
+      }));
+
+      // later sources are drawn over earlier ones
+      reads.forEach((read, index) => {
+        if (!read) return;
+        const { nodata, scaleOffset = 0, scaleRatio = 1 } = band.sources[index];
+        const [x, y, w, h] = read.rect;
+        for (let row = 0; row < h; row++) {
+          for (let col = 0; col < w; col++) {
+            const val = read.array[row * w + col];
+            if (val === nodata || isNaN(val)) continue;
+            result[(row + y) * outWidth + col + x] = val * scaleRatio + scaleOffset;
+          }
+        }
+      });
+      return result;
+    }));
+
+    return Object.assign(data, { width: outWidth, height: outHeight }) as TypedArrayArrayWithDimensions;
+  }
+
+  readRGB(options: ReadRasterOptions = {}) {
+    return this.readRasters({ ...options, samples: [0, 1, 2] });
+  }
+}
+
+/**
+ * A GeoTIFF like source reading a GDAL VRT through the files it references
+ */
+export class VRTGeoTIFF {
+  private constructor(private readonly images: VRTImage[]) { }
+
+  /**
+   * @param definition parsed VRT
+   * @param open function opening a referenced file
+   * @param tileSize size under which no more virtual overviews are created
+   */
+  static async fromDefinition(definition: VRTDefinition, open: (url: string) => Promise<GeoTIFF>, tileSize = 256) {
+    const filenames = Array.from(new Set(definition.bands.flatMap(band => band.sources.map(source => source.filename))));
+    if (!filenames.length) {
+      throw new Error('VRT has no supported sources');
+    }
+    const sources = new Map<string, OpenedSource>();
+    await Promise.all(filenames.map(async (filename) => {
+      const tiff = await open(filename);
+      const images: GeoTIFFImage[] = [];
+      const count = await tiff.getImageCount();
+      for (let i = 0; i < count; i++) {
+        const image = await tiff.getImage(i);
+        if (!isMaskImage(image)) {
+          images.push(image);
+        }
+      }
+      sources.set(filename, { images, width: images[0].getWidth(), height: images[0].getHeight() });
+    }));
+
+    const geoKeys = { ...sources.get(filenames[0]).images[0].geoKeys };
+    if (definition.epsg) {
+      const projected = definition.projected ?? !!geoKeys.ProjectedCSTypeGeoKey;
+      delete geoKeys.ProjectedCSTypeGeoKey;
+      delete geoKeys.GeographicTypeGeoKey;
+      geoKeys[projected ? 'ProjectedCSTypeGeoKey' : 'GeographicTypeGeoKey'] = definition.epsg;
+      geoKeys.GTModelTypeGeoKey = projected ? 1 : 2;
+    }
+
+    const images: VRTImage[] = [];
+    let width = definition.width, height = definition.height;
+    do {
+      images.push(new VRTImage(definition, sources, width, height, geoKeys));
+      width = Math.ceil(width / 2);
+      height = Math.ceil(height / 2);
+    } while (Math.max(images[images.length - 1].getWidth(), images[images.length - 1].getHeight()) > tileSize);
+
+    return new VRTGeoTIFF(images);
+  }
+
+  async getImage(index = 0) {
+    return this.images[index] as unknown as GeoTIFFImage;
+  }
+
+  async getImageCount() {
+    return this.images.length;
+  }
+}
@@ -1,6 +1,18 @@
 import { TIFFImageryProvider } from './TIFFImageryProvider';
 
 export * from './TIFFImageryProvider';
+export { TIFFParticleFlow } from './TIFFParticleFlow';
+export type { TIFFParticleFlowOptions } from './TIFFParticleFlow';
 export { colorscales, renderColorScaleToCanvas } from './plotty';
+export { PersistentCache, IndexedDBCacheStore, MemoryCacheStore } from './helpers/cache';
+export type { CacheStore, CacheEntryInfo, PersistentCacheOptions } from './helpers/cache';
+export type { NoData } from './helpers/utils';
+export { registerCRS, registerProjectionMethod } from './helpers/crs';
+export type { CRSDefinition } from './helpers/crs';
+export type { DatumShift } from './helpers/datum';
+export type { OffsetCoordinateSystem } from './helpers/offset';
+export type { Projection, ProjectionMethod, ProjectionParameters } from './helpers/projections';
+export type { GCP, GCPFit, GCPOptions, GCPResidual } from './helpers/gcp';
+export type { StacItem, StacItemCollection, StacAsset, StacRasterBand, StacEoBand } from './helpers/stac';
 
 export default TIFFImageryProvider;
\ No newline at end of file
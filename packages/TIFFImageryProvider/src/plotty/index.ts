@@ -10,8 +10,10 @@
  */
 import { colorscales } from './colorscales';
 import { parse as parseArithmetics } from './arithmetics-parser';
-import { ColorScaleNames, DataSet, PlotOptions, RenderColorType, RGBOptions, TypedArray } from './typing';
-import { stringColorToRgba } from '../helpers/utils';
+import { ColorScaleNames, DataSet, DatasetOptions, PlotOptions, RenderColorType, RGBOptions, TypedArray } from './typing';
+import { isNoData, stringColorToRgba } from '../helpers/utils';
+import { ReprojectionMesh, interpolateMesh } from '../helpers/reprojection';
+import { AspectOptions, ContourOptions, HillshadeOptions, SlopeOptions } from '../TIFFImageryProvider';
 
 function hasOwnProperty(obj: any, prop: string) {
   return Object.prototype.hasOwnProperty.call(obj, prop);
@@ -86,7 +88,43 @@ function setRectangle(gl: WebGLRenderingContext, x: number, y: number, width: nu
     x2, y2]), gl.STATIC_DRAW);
 }
 
-function createDataset(gl: WebGL2RenderingContext, id: string, data: TypedArray, width: number, height: number, noDataValue: number) {
+/**
+ * Get the two triangles of every mesh cell, target positions span the tile and source positions are
+ * converted to texture coordinates of the whole source, the buffer is not applied to meshes
+ */
+function getMeshVertices(mesh: ReprojectionMesh, width: number, height: number, sourceWidth: number, sourceHeight: number) {
+  const { columns, rows, positions: meshPositions } = mesh;
+  const positions = new Float32Array(columns * rows * 12);
+  const texCoords = new Float32Array(columns * rows * 12);
+  const corners = [[0, 0], [1, 0], [0, 1], [0, 1], [1, 0], [1, 1]];
+  let offset = 0;
+  for (let j = 0; j < rows; j++) {
+    for (let i = 0; i < columns; i++) {
+      corners.forEach(([di, dj]) => {
+        const index = ((j + dj) * (columns + 1) + i + di) * 2;
+        positions[offset] = (i + di) / columns * width;
+        positions[offset + 1] = (j + dj) / rows * height;
+        texCoords[offset] = meshPositions[index] / sourceWidth;
+        texCoords[offset + 1] = meshPositions[index + 1] / sourceHeight;
+        offset += 2;
+      });
+    }
+  }
+  return { positions, texCoords };
+}
+
+function createDataset(gl: WebGL2RenderingContext, id: string, data: TypedArray, width: number, height: number, noDataValue: number, options: DatasetOptions = {}) {
+  const { scale = 1, offset = 0, nodata } = options;
+  const converted = scale !== 1 || offset !== 0 || nodata !== undefined;
+  const processedData = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const value = data[i];
+    // nodata is compared in stored units
+    processedData[i] = isNaN(value) || (converted && (value === noDataValue || isNoData(value, nodata))) ?
+      noDataValue :
+      value * scale + offset;
+  }
+
   let textureData: WebGLTexture;
   if (gl) {
     gl.viewport(0, 0, width, height);
@@ -99,12 +137,6 @@ function createDataset(gl: WebGL2RenderingContext, id: string, data: TypedArray,
     gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
     gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
 
-    const processedData = new Float32Array(data.length);
-
-    for (let i = 0; i < data.length; i++) {
-      processedData[i] = isNaN(data[i]) ? noDataValue : data[i];
-    }
-
     // Use R32F format for single channel float data in WebGL2
     gl.texImage2D(
       gl.TEXTURE_2D,    // target
@@ -118,9 +150,39 @@ function createDataset(gl: WebGL2RenderingContext, id: string, data: TypedArray,
       processedData    // data
     );
   }
-  return { textureData, width, height, data, id };
+  return { textureData, width, height, data: converted ? processedData : data, id };
+}
+
+/**
+ * Format a number as a GLSL float literal
+ */
+function toGLSLFloat(value: number) {
+  const str = `${value}`;
+  return /[.e]/.test(str) ? str : `${str}.0`;
+}
+
+/**
+ * Compile the parsed expression to GLSL, identifiers are the names of the sampled band values
+ */
+function expressionToGLSL(node: any): string {
+  if (typeof node === 'number') {
+    return toGLSLFloat(node);
+  }
+  if (typeof node === 'string') {
+    return node;
+  }
+  if (node.fn) {
+    return `${node.fn}(${expressionToGLSL(node.lhs)})`;
+  }
+  if (node.op === '**') {
+    return `pow(${expressionToGLSL(node.lhs)}, ${expressionToGLSL(node.rhs)})`;
+  }
+  return `(${expressionToGLSL(node.lhs)} ${node.op} ${expressionToGLSL(node.rhs)})`;
 }
 
+/** width of the palette texture, values are looked up at (value % width, value / width) */
+const PALETTE_WIDTH = 256;
+
 function destroyDataset(gl: WebGLRenderingContext, dataset: DataSet) {
   if (gl) {
     gl.deleteTexture(dataset.textureData);
@@ -206,10 +268,12 @@ const vertexShaderSource = `#version 300 es
   
   in vec2 a_position;
   in vec2 a_texCoord;
+  in vec2 a_sourceTexCoord;
   uniform mat3 u_matrix;
   uniform vec2 u_resolution;
   uniform vec2 u_targetSize;
   uniform vec4 u_window;
+  uniform bool u_useMesh;
   out vec2 v_texCoord;
   out vec2 v_sourceTexCoord;
 
@@ -221,7 +285,8 @@ const vertexShaderSource = `#version 300 es
     gl_Position = vec4(clipSpace * vec2(1, -1), 0, 1);
     
     v_texCoord = a_texCoord;
-    v_sourceTexCoord = mix(u_window.xy, u_window.zw, a_position / u_targetSize);
+    // reprojected tiles are warped by the mesh, other tiles sample a window of the source
+    v_sourceTexCoord = u_useMesh ? a_sourceTexCoord : mix(u_window.xy, u_window.zw, a_position / u_targetSize);
   }
 `;
 
@@ -278,12 +343,14 @@ class plot {
   expressionAst: string;
   colorType: RenderColorType = 'continuous';
   positionBuffer: WebGLBuffer;
+  sourceTexCoordBuffer: WebGLBuffer;
   programCache: Record<string, WebGLProgram> = {};
   window: number[];
   interpolationMethod: 'nearest' | 'bilinear' = 'nearest';
   tileWidth: number;
   tileHeight: number;
   buffer: number;
+  mesh: ReprojectionMesh | null = null;
   private _rgbBands: {
     r?: { band: number; min?: number; max?: number; };
     g?: { band: number; min?: number; max?: number; };
@@ -291,6 +358,15 @@ class plot {
   };
   private _colorMapping: [number[], number[]][] = [];
   private _isRGB: boolean = false;
+  private _alphaDataset: DataSet | null = null;
+  private _paletteColors: Uint8Array | null = null;
+  private _paletteTexture: WebGLTexture | null = null;
+  private _hillshade: HillshadeOptions | null = null;
+  private _slope: SlopeOptions | null = null;
+  private _aspect: AspectOptions | null = null;
+  private _contours: ContourOptions | null = null;
+  /** ground size in metres of a target pixel along x and y */
+  private _pixelSize: number[] = [1, 1];
 
   constructor(options: PlotOptions) {
     this.datasetCollection = {};
@@ -463,12 +539,13 @@ class plot {
    *                          beeing rendered.
    * @param {number} width the width of the raster image
    * @param {number} height the height of the data
+   * @param {DatasetOptions} [options] scale / offset converting stored values and the nodata of the dataset
    */
-  addDataset(id: string, data: TypedArray, width: number, height: number) {
+  addDataset(id: string, data: TypedArray, width: number, height: number, options?: DatasetOptions) {
     if (this.datasetAvailable(id)) {
       throw new Error(`There is already a dataset registered with id '${id}'`);
     }
-    this.datasetCollection[id] = createDataset(this.gl, id, data, width, height, this.noDataValue);
+    this.datasetCollection[id] = createDataset(this.gl, id, data, width, height, this.noDataValue, options);
     if (!this.currentDataset) {
       this.currentDataset = this.datasetCollection[id];
     }
@@ -515,6 +592,103 @@ class plot {
     this.currentDataset = null;
   }
 
+  /**
+   * Set the transparency channel multiplied with the rendered alpha, e.g. from a mask or an alpha band.
+   * @param {TypedArray} data opacity in the range 0-1, same size as the datasets. Use undefined to clear it.
+   * @param {number} width the width of the raster image
+   * @param {number} height the height of the data
+   */
+  setAlpha(data?: TypedArray, width?: number, height?: number) {
+    if (this._alphaDataset) {
+      destroyDataset(this.gl, this._alphaDataset);
+      this._alphaDataset = null;
+    }
+    if (data) {
+      this._alphaDataset = createDataset(this.gl, null, data, width, height, 0);
+    }
+  }
+
+  /**
+   * Set a palette mapping integer values to colors, used instead of the color scale and always sampled with
+   * the nearest value.
+   * @param {Uint8Array} colors RGBA colors (0-255) of the values 0, 1, 2... Use undefined to clear it.
+   */
+  setPalette(colors?: Uint8Array) {
+    const gl = this.gl;
+    if (gl && this._paletteTexture) {
+      gl.deleteTexture(this._paletteTexture);
+    }
+    this._paletteTexture = null;
+    this._paletteColors = colors ?? null;
+
+    if (gl && colors) {
+      const size = colors.length / 4;
+      const width = Math.min(size, PALETTE_WIDTH);
+      const height = Math.ceil(size / PALETTE_WIDTH);
+      const data = new Uint8Array(width * height * 4);
+      data.set(colors);
+
+      this._paletteTexture = gl.createTexture();
+      gl.bindTexture(gl.TEXTURE_2D, this._paletteTexture);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, data);
+    }
+  }
+
+  /**
+   * Set the mesh warping the rendered tile onto the datasets, replacing the render window.
+   * @param {ReprojectionMesh} mesh source pixel positions of the tile grid. Use undefined to clear it.
+   */
+  setMesh(mesh?: ReprojectionMesh) {
+    this.mesh = mesh ?? null;
+  }
+
+  /**
+   * Render the hillshade of the elevations of the current dataset instead of its values, the shade (0 - 1) is mapped
+   * through the color scale. Only rendered with WebGL.
+   * @param {HillshadeOptions} options light and vertical exaggeration. Use undefined to clear it.
+   */
+  setHillshade(options?: HillshadeOptions) {
+    this._hillshade = options ?? null;
+  }
+
+  /**
+   * Render the slope of the elevations of the current dataset instead of its values, the slope is mapped through the
+   * color scale. Only rendered with WebGL.
+   * @param {SlopeOptions} options unit and vertical exaggeration. Use undefined to clear it.
+   */
+  setSlope(options?: SlopeOptions) {
+    this._slope = options ?? null;
+  }
+
+  /**
+   * Render the aspect of the elevations of the current dataset instead of its values, the downslope direction in
+   * degrees clockwise from north is mapped through the color scale. Only rendered with WebGL.
+   * @param {AspectOptions} options handling of flat areas. Use undefined to clear it.
+   */
+  setAspect(options?: AspectOptions) {
+    this._aspect = options ?? null;
+  }
+
+  /**
+   * Draw contour lines of the values of the current dataset over the rendered colors. Only rendered with WebGL.
+   * @param {ContourOptions} options interval and style of the lines. Use undefined to clear it.
+   */
+  setContours(options?: ContourOptions) {
+    this._contours = options ?? null;
+  }
+
+  /**
+   * Set the ground size of a target pixel, the horizontal distance of the elevation gradient of the terrain modes.
+   * @param {number[]} pixelSize size in metres along x and y
+   */
+  setPixelSize(pixelSize: number[]) {
+    this._pixelSize = pixelSize;
+  }
+
   /**
    * Check if the dataset is available.
    * @param {string} id the identifier of the dataset to check.
@@ -717,10 +891,10 @@ class plot {
 
     this.setupTextures(program, ids, dataset);
     this.setupUniforms(program);
-    this.setupAttributes(program);
+    const count = this.setupAttributes(program);
 
-    // Draw the rectangle
-    gl.drawArrays(gl.TRIANGLES, 0, 6);
+    // Draw the rectangle or the mesh triangles
+    gl.drawArrays(gl.TRIANGLES, 0, count);
   }
 
   private getOrCreateProgram(ids: string[] | null): WebGLProgram | null {
@@ -761,6 +935,28 @@ uniform bool u_clampLow;
 uniform bool u_clampHigh;
 uniform int u_interpolationMethod;
 uniform float u_buffer;
+uniform sampler2D u_textureAlpha;
+uniform bool u_useAlpha;
+uniform sampler2D u_texturePalette;
+uniform bool u_usePalette;
+uniform highp int u_paletteSize;
+// 0: values, 1: hillshade, 2: slope in degrees, 3: slope in percent, 4: aspect
+uniform int u_terrain;
+uniform vec2 u_pixelSize;
+uniform float u_zFactor;
+uniform float u_azimuth;
+uniform float u_altitude;
+uniform bool u_multidirectional;
+uniform bool u_zeroForFlat;
+uniform bool u_contours;
+uniform bool u_contourFill;
+uniform float u_contourInterval;
+uniform float u_contourBase;
+uniform float u_contourMajorEvery;
+uniform float u_contourWidth;
+uniform float u_contourMajorWidth;
+uniform vec4 u_contourColor;
+uniform vec4 u_contourMajorColor;
 
 ${this._isRGB ? `
 uniform sampler2D u_texture_r;
@@ -793,6 +989,15 @@ float getValue(sampler2D tex, vec2 point) {
     return texture(tex, clampedSamplePoint).r;
 }
 
+float sampleAlpha(vec2 uv) {
+    if (!u_useAlpha) {
+        return 1.0;
+    }
+    vec2 point = (uv * (u_sourceSize - vec2(2.0 * u_buffer)) + vec2(u_buffer)) / u_sourceSize;
+    vec2 clampedSamplePoint = clamp(point, vec2(0.0), vec2(1.0) - (1.0 / u_sourceSize));
+    return clamp(texture(u_textureAlpha, clampedSamplePoint).r, 0.0, 1.0);
+}
+
 float sampleNearest(sampler2D tex, vec2 uv) {
     vec2 adjustedPoint = (uv * (u_sourceSize - vec2(2.0 * u_buffer)) + vec2(u_buffer)) / u_sourceSize;
     return getValue(tex, adjustedPoint);
@@ -844,6 +1049,100 @@ vec4 sampleBilinear(sampler2D tex, vec2 uv) {
     return vec4(value / totalWeight, 0.0, 0.0, totalWeight);
 }
 
+${this._isRGB ? '' : `
+float sampleElevation(sampler2D tex, vec2 uv, float fallback) {
+    vec4 value = sampleBilinear(tex, uv);
+    return isNoData(value.r) || value.a == 0.0 ? fallback : value.r;
+}
+
+// gradient [east, north] of the elevations with Horn's kernel over the neighbouring target pixels
+vec2 getGradient(sampler2D tex, vec2 uv, vec2 dx, vec2 dy, float center) {
+    float a = sampleElevation(tex, uv - dx + dy, center);
+    float b = sampleElevation(tex, uv + dy, center);
+    float c = sampleElevation(tex, uv + dx + dy, center);
+    float d = sampleElevation(tex, uv - dx, center);
+    float f = sampleElevation(tex, uv + dx, center);
+    float g = sampleElevation(tex, uv - dx - dy, center);
+    float h = sampleElevation(tex, uv - dy, center);
+    float i = sampleElevation(tex, uv + dx - dy, center);
+    return u_zFactor * vec2(
+        ((c + 2.0 * f + i) - (a + 2.0 * d + g)) / (8.0 * u_pixelSize.x),
+        ((a + 2.0 * b + c) - (g + 2.0 * h + i)) / (8.0 * u_pixelSize.y)
+    );
+}
+
+// cosine of the angle between the surface normal and the light
+float shade(vec2 gradient, float azimuth) {
+    vec3 light = vec3(sin(azimuth) * cos(u_altitude), cos(azimuth) * cos(u_altitude), sin(u_altitude));
+    return dot(normalize(vec3(-gradient, 1.0)), light);
+}
+
+float hillshade(vec2 gradient) {
+    if (!u_multidirectional) {
+        return clamp(shade(gradient, u_azimuth), 0.0, 1.0);
+    }
+    // lights across the downslope direction weigh more, the weights sum up to 2
+    float aspect = atan(-gradient.x, -gradient.y);
+    float value = 0.0;
+    for (int k = 0; k < 4; k++) {
+        float azimuth = radians(225.0 + 45.0 * float(k));
+        float weight = sin(aspect - azimuth);
+        value += weight * weight * shade(gradient, azimuth) / 2.0;
+    }
+    return clamp(value, 0.0, 1.0);
+}
+
+// hillshade, slope or aspect of the elevations
+vec4 sampleTerrain(sampler2D tex, vec2 uv, vec2 dx, vec2 dy) {
+    vec4 center = sampleBilinear(tex, uv);
+    if (isNoData(center.r) || center.a == 0.0) {
+        return center;
+    }
+    vec2 gradient = getGradient(tex, uv, dx, dy, center.r);
+    float value;
+    if (u_terrain == 1) {
+        value = hillshade(gradient);
+    } else if (u_terrain == 2) {
+        value = degrees(atan(length(gradient)));
+    } else if (u_terrain == 3) {
+        value = 100.0 * length(gradient);
+    } else if (gradient == vec2(0.0)) {
+        // flat areas have no aspect
+        return u_zeroForFlat ? vec4(0.0, 0.0, 0.0, center.a) : vec4(u_noDataValue, 0.0, 0.0, 0.0);
+    } else {
+        // direction of the downslope, clockwise from north
+        value = mod(degrees(atan(-gradient.x, -gradient.y)) + 360.0, 360.0);
+    }
+    return vec4(value, 0.0, 0.0, center.a);
+}
+
+// blend the nearest contour line over the color, the line is anti-aliased from its distance in target pixels
+vec4 drawContours(vec4 color, sampler2D tex, vec2 uv, vec2 dx, vec2 dy) {
+    vec4 base = u_contourFill ? color : vec4(0.0);
+    vec4 center = sampleBilinear(tex, uv);
+    if (isNoData(center.r) || center.a == 0.0) {
+        return base;
+    }
+    float level = (center.r - u_contourBase) / u_contourInterval;
+    // change of the level per target pixel, the neighbours at the tile border are read from the buffer
+    vec2 gradient = vec2(
+        sampleElevation(tex, uv + dx, center.r) - sampleElevation(tex, uv - dx, center.r),
+        sampleElevation(tex, uv + dy, center.r) - sampleElevation(tex, uv - dy, center.r)
+    ) / (2.0 * u_contourInterval);
+    float line = round(level);
+    bool major = u_contourMajorEvery > 0.0 && mod(line, u_contourMajorEvery) == 0.0;
+    float width = major ? u_contourMajorWidth : u_contourWidth;
+    vec4 lineColor = major ? u_contourMajorColor : u_contourColor;
+    float distance = abs(level - line) / max(length(gradient), 1e-6);
+    float coverage = (1.0 - smoothstep(width / 2.0 - 0.5, width / 2.0 + 0.5, distance)) * lineColor.a * center.a;
+    float alpha = coverage + base.a * (1.0 - coverage);
+    if (alpha == 0.0) {
+        return vec4(0.0);
+    }
+    return vec4((lineColor.rgb * coverage + base.rgb * base.a * (1.0 - coverage)) / alpha, alpha);
+}
+`}
+
 ${this._isRGB ? `
 vec4 processRGBValue(vec4 rValue, vec4 gValue, vec4 bValue) {
     if(isNoData(rValue.r) || isNoData(gValue.r) || isNoData(bValue.r)) {
@@ -869,6 +1168,9 @@ vec4 processRGBValue(vec4 rValue, vec4 gValue, vec4 bValue) {
 }
 ` : ''}`;
 
+    const sample = (texture: string) =>
+      `(u_interpolationMethod == 0 ? vec4(sampleNearest(${texture}, v_sourceTexCoord), 0.0, 0.0, 1.0) : sampleBilinear(${texture}, v_sourceTexCoord))`;
+
     let mainFunction: string;
     if (this._isRGB) {
       mainFunction = `
@@ -886,17 +1188,26 @@ void main() {
     }
     
     fragColor = processRGBValue(rValue, gValue, bValue);
+    fragColor.a *= sampleAlpha(v_sourceTexCoord);
 }`;
     } else {
+      // expressions are evaluated on the sampled values of every referenced band
+      const sampling = ids ? `
+    ${ids.map(id => `vec4 ${id}_sample = ${sample(`u_texture_${id}`)};`).join('\n    ')}
+    if (${ids.map(id => `isNoData(${id}_sample.r) || ${id}_sample.a == 0.0`).join(' || ')}) {
+        fragColor = vec4(0.0, 0.0, 0.0, 0.0);
+        return;
+    }
+    ${ids.map(id => `float ${id} = ${id}_sample.r;`).join('\n    ')}
+    sampledValue = vec4(${expressionToGLSL(this.expressionAst)}, 0.0, 0.0, ${ids.map(id => `${id}_sample.a`).reduce((pre, val) => `min(${pre}, ${val})`)});` : `
+    // derivatives are taken before any branch, they are undefined in non-uniform control flow
+    vec2 sourceDx = dFdx(v_sourceTexCoord);
+    vec2 sourceDy = dFdy(v_sourceTexCoord);
+    sampledValue = u_terrain > 0 ? sampleTerrain(u_textureData, v_sourceTexCoord, sourceDx, sourceDy) : ${sample('u_textureData')};`;
       mainFunction = `
 void main() {
     vec4 sampledValue;
-    
-    if (u_interpolationMethod == 0) {
-        sampledValue = vec4(sampleNearest(u_textureData, v_sourceTexCoord), 0.0, 0.0, 1.0);
-    } else {
-        sampledValue = sampleBilinear(u_textureData, v_sourceTexCoord);
-    }
+${sampling}
 
     float value = sampledValue.r;
     float alpha = sampledValue.a;
@@ -905,13 +1216,25 @@ void main() {
         fragColor = vec4(0.0, 0.0, 0.0, 0.0);
     } else if (u_apply_display_range && (value < u_display_range[0] || value >= u_display_range[1])) {
         fragColor = vec4(0.0, 0.0, 0.0, 0.0);
+    } else if (u_usePalette) {
+        highp int index = int(round(value));
+        if (index < 0 || index >= u_paletteSize) {
+            fragColor = vec4(0.0, 0.0, 0.0, 0.0);
+        } else {
+            vec4 color = texelFetch(u_texturePalette, ivec2(index % ${PALETTE_WIDTH}, index / ${PALETTE_WIDTH}), 0);
+            fragColor = vec4(color.rgb, color.a * alpha);
+        }
     } else if ((!u_clampLow && value < u_domain[0]) || (!u_clampHigh && value > u_domain[1])) {
         fragColor = vec4(0.0, 0.0, 0.0, 0.0);
     } else {
         float normalisedValue = (value - u_domain[0]) / (u_domain[1] - u_domain[0]);
         vec4 color = texture(u_textureScale, vec2(normalisedValue, 0.0));
         fragColor = vec4(color.rgb, color.a * alpha);
-    }
+    }${ids ? '' : `
+    if (u_contours) {
+        fragColor = drawContours(fragColor, u_textureData, v_sourceTexCoord, sourceDx, sourceDy);
+    }`}
+    fragColor.a *= sampleAlpha(v_sourceTexCoord);
 }`;
     }
 
@@ -977,6 +1300,24 @@ ${mainFunction}`;
         gl.bindTexture(gl.TEXTURE_2D, this.textureScale);
       }
     }
+
+    // bind the alpha channel after the textures used above
+    const alphaUnit = this._isRGB ? 3 : ids ? ids.length + 1 : 2;
+    gl.uniform1i(gl.getUniformLocation(program, 'u_useAlpha'), +!!this._alphaDataset);
+    if (this._alphaDataset) {
+      gl.uniform1i(gl.getUniformLocation(program, 'u_textureAlpha'), alphaUnit);
+      gl.activeTexture(gl[`TEXTURE${alphaUnit}`]);
+      gl.bindTexture(gl.TEXTURE_2D, this._alphaDataset.textureData);
+    }
+
+    const paletteUnit = alphaUnit + 1;
+    gl.uniform1i(gl.getUniformLocation(program, 'u_usePalette'), +!!this._paletteTexture);
+    if (this._paletteTexture) {
+      gl.uniform1i(gl.getUniformLocation(program, 'u_texturePalette'), paletteUnit);
+      gl.uniform1i(gl.getUniformLocation(program, 'u_paletteSize'), this._paletteColors.length / 4);
+      gl.activeTexture(gl[`TEXTURE${paletteUnit}`]);
+      gl.bindTexture(gl.TEXTURE_2D, this._paletteTexture);
+    }
   }
 
   private setupUniforms(program: WebGLProgram) {
@@ -992,24 +1333,88 @@ ${mainFunction}`;
     gl.uniform1f(gl.getUniformLocation(program, 'u_noDataValue'), this.noDataValue);
     gl.uniformMatrix3fv(gl.getUniformLocation(program, 'u_matrix'), false, this.matrix);
     gl.uniform4fv(gl.getUniformLocation(program, 'u_window'), this.window);
-    gl.uniform1i(gl.getUniformLocation(program, 'u_interpolationMethod'), this.interpolationMethod === 'nearest' ? 0 : 1);
-    gl.uniform1f(gl.getUniformLocation(program, 'u_buffer'), this.buffer);
+    gl.uniform1i(gl.getUniformLocation(program, 'u_useMesh'), +!!this.mesh);
+    // palette values are classes, interpolating them is meaningless
+    gl.uniform1i(gl.getUniformLocation(program, 'u_interpolationMethod'), this.interpolationMethod === 'nearest' || this._paletteTexture ? 0 : 1);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_buffer'), this.mesh ? 0 : this.buffer);
+
+    const { azimuth = 315, altitude = 45, multidirectional = false } = this._hillshade ?? {};
+    const terrain = this._hillshade ? 1 : this._slope ? (this._slope.unit === 'percent' ? 3 : 2) : this._aspect ? 4 : 0;
+    gl.uniform1i(gl.getUniformLocation(program, 'u_terrain'), terrain);
+    gl.uniform2fv(gl.getUniformLocation(program, 'u_pixelSize'), this._pixelSize);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_zFactor'), (this._hillshade ?? this._slope)?.zFactor ?? 1);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_azimuth'), azimuth * Math.PI / 180);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_altitude'), altitude * Math.PI / 180);
+    gl.uniform1i(gl.getUniformLocation(program, 'u_multidirectional'), +multidirectional);
+    gl.uniform1i(gl.getUniformLocation(program, 'u_zeroForFlat'), +!!this._aspect?.zeroForFlat);
+
+    const { interval = 1, base = 0, majorEvery = 0, color = 'black', width = 1, fill = true } = this._contours ?? {};
+    const { majorColor = color, majorWidth = width * 2 } = this._contours ?? {};
+    gl.uniform1i(gl.getUniformLocation(program, 'u_contours'), +!!this._contours);
+    gl.uniform1i(gl.getUniformLocation(program, 'u_contourFill'), +fill);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_contourInterval'), interval);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_contourBase'), base);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_contourMajorEvery'), majorEvery);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_contourWidth'), width);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_contourMajorWidth'), majorWidth);
+    gl.uniform4fv(gl.getUniformLocation(program, 'u_contourColor'), stringColorToRgba(color).map(val => val / 255));
+    gl.uniform4fv(gl.getUniformLocation(program, 'u_contourMajorColor'), stringColorToRgba(majorColor).map(val => val / 255));
   }
 
+  /**
+   * Set up the vertices of the rectangle or the mesh
+   * @returns the number of vertices to draw
+   */
   private setupAttributes(program: WebGLProgram) {
     const gl = this.gl!;
 
     const positionLocation = gl.getAttribLocation(program, 'a_position');
     if (positionLocation === -1) {
       console.error('Unable to get position attribute location');
-      return;
+      return 0;
     }
 
+    const { width, height } = this.currentDataset;
+    const vertices = this.mesh && getMeshVertices(this.mesh, this.tileWidth, this.tileHeight, width, height);
+
     const positionBuffer = gl.createBuffer();
     gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
     gl.enableVertexAttribArray(positionLocation);
     gl.vertexAttribPointer(positionLocation, 2, gl.FLOAT, false, 0, 0);
-    setRectangle(gl, 0, 0, this.tileWidth, this.tileHeight);
+    if (vertices) {
+      gl.bufferData(gl.ARRAY_BUFFER, vertices.positions, gl.STATIC_DRAW);
+    } else {
+      setRectangle(gl, 0, 0, this.tileWidth, this.tileHeight);
+    }
+
+    // the rectangle texture coordinates only cover its 6 vertices
+    const texCoordLocation = gl.getAttribLocation(program, 'a_texCoord');
+    if (texCoordLocation !== -1) {
+      if (vertices) {
+        gl.disableVertexAttribArray(texCoordLocation);
+      } else {
+        gl.enableVertexAttribArray(texCoordLocation);
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.texCoordBuffer);
+        gl.vertexAttribPointer(texCoordLocation, 2, gl.FLOAT, false, 0, 0);
+      }
+    }
+
+    const sourceTexCoordLocation = gl.getAttribLocation(program, 'a_sourceTexCoord');
+    if (sourceTexCoordLocation !== -1) {
+      if (vertices) {
+        if (!this.sourceTexCoordBuffer) {
+          this.sourceTexCoordBuffer = gl.createBuffer();
+        }
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.sourceTexCoordBuffer);
+        gl.bufferData(gl.ARRAY_BUFFER, vertices.texCoords, gl.STATIC_DRAW);
+        gl.enableVertexAttribArray(sourceTexCoordLocation);
+        gl.vertexAttribPointer(sourceTexCoordLocation, 2, gl.FLOAT, false, 0, 0);
+      } else {
+        gl.disableVertexAttribArray(sourceTexCoordLocation);
+      }
+    }
+
+    return vertices ? vertices.positions.length / 2 : 6;
   }
 
   private render2D(dataset: any) {
@@ -1025,11 +1430,23 @@ ${mainFunction}`;
     let alpha: number;
 
     const data = dataset.data;
+    const alphaData = this._alphaDataset?.data;
+    const mesh = this.mesh;
+    // converted datasets store the no-data value in single precision
+    const noDataValue = data instanceof Float32Array ? Math.fround(this.noDataValue) : this.noDataValue;
 
     for (let y = 0; y < h; y++) {
       for (let x = 0; x < w; x++) {
-        const i = (y * w) + x;
+        let i = (y * w) + x;
         // TODO: Possible increase of performance through use of worker threads?
+        if (mesh) {
+          // nearest pixel of the mesh position at the pixel center, pixels outside of the source are transparent
+          const [col, row] = interpolateMesh(mesh, (x + 0.5) / w, (y + 0.5) / h);
+          if (col < 0 || row < 0 || col >= dataset.width || row >= dataset.height) {
+            continue;
+          }
+          i = Math.floor(row) * dataset.width + Math.floor(col);
+        }
 
         let c = Math.floor(((data[i] - this.domain[0]) / trange) * (steps - 1));
         alpha = 255;
@@ -1045,14 +1462,24 @@ ${mainFunction}`;
           }
         }
         // NaN values should be the only values that are not equal to itself
-        if (data[i] === this.noDataValue || data[i] !== data[i]) {
+        if (data[i] === noDataValue || data[i] !== data[i]) {
           alpha = 0;
         } else if (this.applyDisplayRange
           && (data[i] < this.displayRange[0] || data[i] >= this.displayRange[1])) {
           alpha = 0;
         }
+        if (alphaData) {
+          alpha *= Math.min(Math.max(alphaData[i], 0), 1);
+        }
 
         const index = ((y * w) + x) * 4;
+        if (this._paletteColors) {
+          const p = Math.round(data[i]) * 4;
+          const inPalette = p >= 0 && p < this._paletteColors.length;
+          imageData.data.set(inPalette ? this._paletteColors.subarray(p, p + 3) : [0, 0, 0], index);
+          imageData.data[index + 3] = inPalette ? Math.min(alpha, this._paletteColors[p + 3]) : 0;
+          continue;
+        }
         imageData.data[index + 0] = csImageData[c * 4];
         imageData.data[index + 1] = csImageData[(c * 4) + 1];
         imageData.data[index + 2] = csImageData[(c * 4) + 2];
@@ -1125,7 +1552,10 @@ ${mainFunction}`;
   destroy() {
     // 在使用完WebGL上下文后，释放资源
     this.gl?.deleteProgram(this.program);
+    this.gl?.deleteBuffer(this.sourceTexCoordBuffer);
     this.removeAllDataset();
+    this.setAlpha();
+    this.setPalette();
   }
 
   /**
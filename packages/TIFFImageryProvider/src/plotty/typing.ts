@@ -1,5 +1,6 @@
 import { SingleBandRenderOptions } from "../TIFFImageryProvider";
 import { colorscales } from "./colorscales";
+import { NoData } from "../helpers/utils";
 
 export type TypedArray = Uint8Array | Int8Array | Uint16Array | Int16Array | Uint32Array | Int32Array | Float32Array | Float64Array;
 
@@ -11,6 +12,14 @@ export interface DataSet {
   id: string;
 }
 
+export interface DatasetOptions {
+  /** converts stored values to physical values: value * scale + offset */
+  scale?: number;
+  offset?: number;
+  /** nodata of the dataset in stored values, rendered as the no-data value of the plot */
+  nodata?: NoData;
+}
+
 export type RenderColorType = 'continuous' | 'discrete';
 
 export type ColorScaleNames = keyof typeof colorscales;